@@ -1,27 +1,87 @@
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { Chat } from '@google/genai';
-import { translateVttWithChat } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { TranslationMode, translateCuesAsVtt, translateCuesAsJson, parseCueTranslations, extractGlossaryTerms, reviewTranslation, countCueTokens } from './services/translationService';
+import { DEFAULT_RATE_LIMIT_SETTINGS, RateLimitSettings, createRateLimiter, estimateRequestTokens, sleepUnlessCancelled } from './services/rateLimiter';
+import { deleteChunks, loadMemoryEntries, loadQueue, loadSettings, loadTranslatedCues, saveChunk, saveMemoryEntries, saveQueue, saveSetting } from './services/persistence';
+import { GenerationConfig, ProviderSettings, RunSettings, TranslationProvider, TranslationUsage } from './services/providers/types';
+import { RateLimitedError, ValidationError } from './services/providers/errors';
+import { DEFAULT_GENERATION_CONFIG, DEFAULT_PROVIDER_SETTINGS, createTranslationProvider, isProviderConfigured } from './services/providers/createProvider';
+import { getMinThinkingBudget } from './services/providers/geminiProvider';
 import { FileUploadArea } from './components/FileUploadArea';
 import { ResultsDisplay } from './components/ResultsDisplay';
 import { readFileAsText } from './utils/fileUtils';
-import { countCues, splitVttIntoCues, groupCuesIntoChunks } from './utils/vttUtils';
+import { Cue, VttDocument, parseVtt, serializeVtt, serializeCues, getCues, replaceCues, replaceCueText, setHeaderMetadata } from './utils/vttUtils';
+import { SubtitleFormat, detectSubtitleFormat, parseSubtitle } from './utils/subtitleFormats';
+import { alignTranslatedCues } from './utils/cueAlignment';
+import { createMemoryEntries, findMemoryMatches } from './utils/translationMemory';
+import { DEFAULT_DUAL_SUBTITLE_OPTIONS, DualSubtitleOptions } from './utils/dualSubtitleUtils';
+import { groupCuesByTokenBudget } from './utils/chunkingUtils';
+import { MarkupIssue, findMarkupIssues, repairCueMarkup, repairMarkup } from './utils/markupUtils';
+import { DEFAULT_READABILITY_LIMITS, ReadabilityLimits, findReadabilityIssues, rebalanceCueLines } from './utils/readabilityUtils';
+import { Glossary, GlossaryEntry, GlossaryIssue, createGlossary, findGlossaryIssues, mergeGlossaryEntries, parseGlossaryText } from './utils/glossaryUtils';
+import { DEFAULT_LANGUAGES, LanguagePair, LanguageSelection, getLanguageName } from './utils/languages';
 import { Notification } from './components/Notification';
 import { StatsDisplay } from './components/StatsDisplay';
 import { ApiKeyInput } from './components/ApiKeyInput';
+import { ProviderSettingsPanel } from './components/ProviderSettingsPanel';
+import { GenerationSettingsPanel } from './components/GenerationSettingsPanel';
+import { ReadabilitySettingsPanel } from './components/ReadabilitySettingsPanel';
 import { Console } from './components/Console';
+import { TranslationMemoryPanel } from './components/TranslationMemoryPanel';
+import { GlossaryManager } from './components/GlossaryManager';
+import { GlossarySuggestions } from './components/GlossarySuggestions';
+
+export type TranslationStatus = 'queued' | 'processing' | 'paused' | 'completed' | 'error';
+
+/** A reviewer's verdict on one translated cue. */
+export type CueReviewStatus = 'approved' | 'flagged';
+
+/** A correction proposed by the self-review pass, waiting to be accepted or dismissed. */
+export interface ReviewSuggestion {
+  cueIndex: number;
+  /** The translation the correction was made against. */
+  draft: string;
+  text: string;
+  reason: string;
+}
 
-export interface TranslationJob {
-  id: number;
-  file: File;
-  status: 'queued' | 'processing' | 'completed' | 'error';
+/** The translation of a job's source file into one target language. */
+export interface TranslationTrack {
+  /** BCP-47 code of the target language. */
+  language: string;
+  status: TranslationStatus;
   translatedVtt?: string;
   error?: string;
-  chatSession?: Chat;
+  /** Tokens spent on this track, as reported by the provider. */
+  usage?: TranslationUsage;
+  /** The model and generation settings of the run that produced this track. */
+  runSettings?: RunSettings;
   progress?: {
     current: number;
     total: number;
   };
+  /** Translated cues of each chunk finished so far, kept while the track is paused or failed. */
+  completedChunks?: Cue[][];
+  /** Index of the next chunk to translate. */
+  chunkIndex?: number;
+  /** Cues whose translation ignores a glossary term, found after each chunk. */
+  glossaryIssues?: GlossaryIssue[];
+  /** Cues whose tags still differ from the source after automatic repair. */
+  markupIssues?: MarkupIssue[];
+  /** Review verdicts by cue index, set in the review editor. */
+  cueReviews?: Record<number, CueReviewStatus>;
+  /** Corrections from the self-review pass that are not yet accepted or dismissed. */
+  reviewSuggestions?: ReviewSuggestion[];
+}
+
+export interface TranslationJob {
+  id: number;
+  file: File;
+  format: SubtitleFormat;
+  outputFormat: SubtitleFormat;
+  sourceLanguage: string;
+  /** One track per target language, in the order they are translated. */
+  tracks: TranslationTrack[];
 }
 
 interface AppNotification {
@@ -34,8 +94,27 @@ interface ConsoleMessage {
   message: string;
 }
 
-const CUES_PER_CHUNK = 25;
+/** Tokens of cue text sent per request, not counting the instructions and context around them. */
+const CHUNK_TOKEN_BUDGET = 1_500;
+/** Most cues sent in one request; beyond this, matching the reply cue by cue gets less reliable. */
+const MAX_CUES_PER_CHUNK = 60;
+/** Cues shown as read-only context on each side of a request. */
+const CONTEXT_CUES = 10;
 const MAX_CHUNK_RETRIES = 3;
+/** Cooldown after a rate-limit error that did not say how long to wait. */
+const RATE_LIMIT_COOLDOWN_MS = 15000;
+/** Quiet time before queue changes are written to storage, so streaming previews do not write on every token. */
+const SAVE_QUEUE_DELAY_MS = 1000;
+
+const createTracks = (targets: string[]): TranslationTrack[] =>
+  targets.map(language => ({ language, status: 'queued' }));
+
+/** Replaces the issues of the given cues with freshly found ones, keeping the list in cue order. */
+const replaceCueIssues = <T extends { cueIndex: number }>(issues: T[] | undefined, cueIndexes: number[], cueIssues: T[]): T[] | undefined => {
+  const updated = [...(issues ?? []).filter(issue => !cueIndexes.includes(issue.cueIndex)), ...cueIssues]
+    .sort((a, b) => a.cueIndex - b.cueIndex);
+  return updated.length > 0 ? updated : undefined;
+};
 
 
 const App: React.FC = () => {
@@ -45,10 +124,22 @@ const App: React.FC = () => {
   const [needsProcessing, setNeedsProcessing] = useState<boolean>(false);
   const [apiKey, setApiKey] = useState<string>('');
   const [isApiKeySet, setIsApiKeySet] = useState<boolean>(false);
-  const [fileDelay, setFileDelay] = useState<number>(12);
-  const [chunkDelay, setChunkDelay] = useState<number>(5);
-  const [glossary, setGlossary] = useState<string>('');
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
+  const [generationConfig, setGenerationConfig] = useState<GenerationConfig>(DEFAULT_GENERATION_CONFIG);
+  const [rateLimits, setRateLimits] = useState<RateLimitSettings>(DEFAULT_RATE_LIMIT_SETTINGS);
+  const [glossaries, setGlossaries] = useState<Glossary[]>([]);
+  const [activeGlossaryId, setActiveGlossaryId] = useState<string>('');
+  const [glossarySuggestions, setGlossarySuggestions] = useState<GlossaryEntry[] | null>(null);
+  const [isExtractingGlossary, setIsExtractingGlossary] = useState<boolean>(false);
+  const [translationMode, setTranslationMode] = useState<TranslationMode>('vtt');
+  const [selfReview, setSelfReview] = useState(false);
+  const [useMemory, setUseMemory] = useState(true);
+  const [dualSubtitles, setDualSubtitles] = useState<DualSubtitleOptions>(DEFAULT_DUAL_SUBTITLE_OPTIONS);
+  const [readabilityLimits, setReadabilityLimits] = useState<ReadabilityLimits>(DEFAULT_READABILITY_LIMITS);
+  const [languages, setLanguages] = useState<LanguageSelection>(DEFAULT_LANGUAGES);
   const [consoleMessages, setConsoleMessages] = useState<ConsoleMessage[]>([]);
+  const [isRestored, setIsRestored] = useState<boolean>(false);
+  const [memoryRevision, setMemoryRevision] = useState<number>(0);
   const stopRequest = useRef(false);
 
   const logToConsole = useCallback((message: string, level: 'info' | 'warn' | 'error' | 'log' = 'log') => {
@@ -66,7 +157,114 @@ const App: React.FC = () => {
       setApiKey(storedApiKey);
       setIsApiKeySet(true);
     }
-  }, []);
+    Promise.all([loadSettings(), loadQueue()])
+      .then(([settings, restoredJobs]) => {
+        setProviderSettings({ ...DEFAULT_PROVIDER_SETTINGS, ...settings.providerSettings });
+        setGenerationConfig({ ...DEFAULT_GENERATION_CONFIG, ...settings.generationConfig });
+        setRateLimits({ ...DEFAULT_RATE_LIMIT_SETTINGS, ...settings.rateLimits });
+        setLanguages({ ...DEFAULT_LANGUAGES, ...settings.languages });
+        // The free-text glossary of earlier versions becomes the first named glossary.
+        const restoredGlossaries = settings.glossaries
+          ?? (settings.glossary?.trim() ? [createGlossary('Default', parseGlossaryText(settings.glossary))] : []);
+        if (!settings.glossaries && restoredGlossaries.length > 0) {
+          saveSetting('glossaries', restoredGlossaries);
+          saveSetting('activeGlossaryId', restoredGlossaries[0].id);
+        }
+        setGlossaries(restoredGlossaries);
+        setActiveGlossaryId(settings.activeGlossaryId ?? restoredGlossaries[0]?.id ?? '');
+        setTranslationMode(settings.translationMode ?? 'vtt');
+        setSelfReview(settings.selfReview ?? false);
+        setUseMemory(settings.useMemory ?? true);
+        setDualSubtitles({ ...DEFAULT_DUAL_SUBTITLE_OPTIONS, ...settings.dualSubtitles });
+        setReadabilityLimits({ ...DEFAULT_READABILITY_LIMITS, ...settings.readabilityLimits });
+        if (restoredJobs.length > 0) {
+          setJobs(restoredJobs);
+          setNotification({ type: 'info', message: `Restored ${restoredJobs.length} file(s) from your previous session. Translating continues from the last completed chunk.` });
+          logToConsole(`Restored ${restoredJobs.length} file(s) from the previous session.`, 'info');
+        }
+      })
+      .catch(error => {
+        console.error('Failed to restore the previous session:', error);
+        logToConsole('Could not restore the previous session. The queue will not be saved.', 'warn');
+      })
+      .finally(() => setIsRestored(true));
+  }, [logToConsole]);
+
+  // Saving starts only after restoring, so the empty initial queue never overwrites the stored one.
+  useEffect(() => {
+    if (!isRestored) return;
+    const timeout = setTimeout(() => {
+      saveQueue(jobs).catch(() => {});
+    }, SAVE_QUEUE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [jobs, isRestored]);
+
+  const handleLanguagesChange = (selection: LanguageSelection) => {
+    saveSetting('languages', selection);
+    setLanguages(selection);
+    // Files that have not started yet follow the new selection.
+    setJobs(prevJobs => prevJobs.map(job =>
+      job.tracks.every(track => track.status === 'queued')
+        ? { ...job, sourceLanguage: selection.source, tracks: createTracks(selection.targets) }
+        : job
+    ));
+  };
+
+  const handleProviderSettingsChange = (settings: ProviderSettings) => {
+    saveSetting('providerSettings', settings);
+    setProviderSettings(settings);
+  };
+
+  const handleGenerationConfigChange = (config: GenerationConfig) => {
+    saveSetting('generationConfig', config);
+    setGenerationConfig(config);
+  };
+
+  const handleReadabilityLimitsChange = (limits: ReadabilityLimits) => {
+    saveSetting('readabilityLimits', limits);
+    setReadabilityLimits(limits);
+  };
+
+  const handleRateLimitsChange = (settings: RateLimitSettings) => {
+    saveSetting('rateLimits', settings);
+    setRateLimits(settings);
+  };
+
+  const handleGlossariesChange = (value: Glossary[]) => {
+    saveSetting('glossaries', value);
+    setGlossaries(value);
+  };
+
+  const handleActiveGlossaryChange = (id: string) => {
+    saveSetting('activeGlossaryId', id);
+    setActiveGlossaryId(id);
+  };
+
+  const handleTranslationModeChange = (mode: TranslationMode) => {
+    saveSetting('translationMode', mode);
+    setTranslationMode(mode);
+  };
+
+  const handleSelfReviewChange = (enabled: boolean) => {
+    saveSetting('selfReview', enabled);
+    setSelfReview(enabled);
+  };
+
+  const handleUseMemoryChange = (enabled: boolean) => {
+    saveSetting('useMemory', enabled);
+    setUseMemory(enabled);
+  };
+
+  const handleDualSubtitlesChange = (options: DualSubtitleOptions) => {
+    saveSetting('dualSubtitles', options);
+    setDualSubtitles(options);
+  };
+
+  const isProviderReady = isProviderConfigured(providerSettings, apiKey);
+  const glossary = useMemo(
+    () => glossaries.find(item => item.id === activeGlossaryId)?.entries ?? [],
+    [glossaries, activeGlossaryId]
+  );
 
   const handleSaveKey = (key: string) => {
     if (!key.trim()) {
@@ -79,6 +277,50 @@ const App: React.FC = () => {
     setNotification({ type: 'success', message: 'API Key saved successfully!' });
   };
 
+  const pendingJobs = jobs.filter(job => job.tracks.some(track => track.status === 'queued' || track.status === 'paused'));
+
+  // Proposes terms for the first target language; the glossary itself is shared by all targets.
+  const handleExtractGlossary = async () => {
+    if (!isProviderReady || pendingJobs.length === 0) return;
+    setIsExtractingGlossary(true);
+    setGlossarySuggestions(null);
+    const provider = createTranslationProvider(providerSettings, apiKey, generationConfig);
+    const pair: LanguagePair = { source: languages.source, target: languages.targets[0] };
+    logToConsole(`Extracting glossary terms from ${pendingJobs.length} file(s) with ${provider.name} (${provider.model})...`, 'info');
+    try {
+      const documents = await Promise.all(pendingJobs.map(async job => parseSubtitle(await readFileAsText(job.file), job.format)));
+      const texts = documents.flatMap(document => getCues(document).map(cue => cue.text));
+      const { entries, usage } = await extractGlossaryTerms(texts, provider, pair, glossary);
+      if (usage) {
+        logToConsole(`Glossary extraction used ${usage.promptTokens} prompt + ${usage.outputTokens} output tokens.`);
+      }
+      logToConsole(`Glossary extraction proposed ${entries.length} new term(s).`, 'info');
+      setGlossarySuggestions(entries);
+    } catch (error) {
+      const message = provider.classifyError(error).message;
+      console.error('Glossary extraction failed:', error);
+      logToConsole(`Glossary extraction failed: ${message}`, 'error');
+      setNotification({ type: 'error', message: `Glossary extraction failed: ${message}` });
+    } finally {
+      setIsExtractingGlossary(false);
+    }
+  };
+
+  const handleAcceptGlossarySuggestions = (entries: GlossaryEntry[]) => {
+    const activeGlossary = glossaries.find(item => item.id === activeGlossaryId);
+    if (activeGlossary) {
+      handleGlossariesChange(glossaries.map(item => (item.id === activeGlossary.id
+        ? { ...item, entries: mergeGlossaryEntries(item.entries, entries) }
+        : item)));
+    } else {
+      const extracted = createGlossary('Extracted Terms', entries);
+      handleGlossariesChange([...glossaries, extracted]);
+      handleActiveGlossaryChange(extracted.id);
+    }
+    setGlossarySuggestions(null);
+    setNotification({ type: 'success', message: `Added ${entries.length} term(s) to the glossary.` });
+  };
+
   const handleClearKey = () => {
     localStorage.removeItem('gemini_api_key');
     setApiKey('');
@@ -87,19 +329,33 @@ const App: React.FC = () => {
   };
 
   const handleFilesSelected = (files: File[]) => {
-    const newJobs: TranslationJob[] = files.map((file, index) => ({
-      id: Date.now() + index,
-      file,
-      status: 'queued',
-    }));
+    const newJobs: TranslationJob[] = [];
+    const skippedFiles: string[] = [];
+    files.forEach((file, index) => {
+      const format = detectSubtitleFormat(file.name);
+      if (!format) {
+        skippedFiles.push(file.name);
+        return;
+      }
+      newJobs.push({
+        id: Date.now() + index,
+        file,
+        format,
+        outputFormat: format,
+        sourceLanguage: languages.source,
+        tracks: createTracks(languages.targets),
+      });
+    });
     setJobs(newJobs);
-    setNotification(null);
+    setNotification(skippedFiles.length > 0
+      ? { type: 'error', message: `Skipped unsupported file(s): ${skippedFiles.join(', ')}` }
+      : null);
   };
   
   const handleStopQueue = useCallback(() => {
     stopRequest.current = true;
-    logToConsole('Stop request initiated by user.', 'warn');
-    setNotification({ type: 'info', message: 'Stopping process... The current operation will finish, then stop.' });
+    logToConsole('Pause request initiated by user.', 'warn');
+    setNotification({ type: 'info', message: 'Pausing... The current chunk will finish, then translation pauses.' });
   }, [logToConsole]);
 
   const updateJobStatus = (id: number, updates: Partial<TranslationJob>) => {
@@ -107,198 +363,506 @@ const App: React.FC = () => {
       prevJobs.map(job => (job.id === id ? { ...job, ...updates } : job))
     );
   };
+
+  /** Updates one track; pass a function to derive the updates from the track's latest state. */
+  const updateTrackStatus = (
+    id: number,
+    language: string,
+    updates: Partial<TranslationTrack> | ((track: TranslationTrack) => Partial<TranslationTrack>)
+  ) => {
+    setJobs(prevJobs =>
+      prevJobs.map(job => (job.id === id
+        ? { ...job, tracks: job.tracks.map(track => (track.language === language
+            ? { ...track, ...(typeof updates === 'function' ? updates(track) : updates) }
+            : track)) }
+        : job))
+    );
+  };
+
+  /**
+   * Checks corrected cues against the source again and stores them in the translation memory,
+   * so their badges reflect the correction and later files reuse it.
+   */
+  const recheckCorrectedCues = async (job: TranslationJob, language: string, correctedDocument: VttDocument, cueIndexes: number[]) => {
+    try {
+      const sourceCues = getCues(parseSubtitle(await readFileAsText(job.file), job.format));
+      const correctedCues = getCues(correctedDocument);
+      const pairs = cueIndexes.flatMap(index => (sourceCues[index] && correctedCues[index]
+        ? [{ index, sourceCue: sourceCues[index], cue: correctedCues[index] }]
+        : []));
+      updateTrackStatus(job.id, language, track => ({
+        glossaryIssues: replaceCueIssues(track.glossaryIssues, cueIndexes,
+          pairs.flatMap(({ index, sourceCue, cue }) => findGlossaryIssues([sourceCue], [cue], glossary, index))),
+        markupIssues: replaceCueIssues(track.markupIssues, cueIndexes,
+          pairs.flatMap(({ index, sourceCue, cue }) => findMarkupIssues([sourceCue], [cue], index))),
+      }));
+      await saveMemoryEntries(createMemoryEntries(
+        pairs.map(({ sourceCue }) => sourceCue),
+        pairs.map(({ cue }) => cue),
+        { source: job.sourceLanguage, target: language },
+      ));
+      setMemoryRevision(revision => revision + 1);
+    } catch (error) {
+      console.error(`Failed to re-check the corrected cues of ${job.file.name} [${language}]:`, error);
+    }
+  };
+
+  // Reviewer corrections go straight into the track, so copies and downloads include them.
+  const handleEditCue = (id: number, language: string, cueIndex: number, text: string) => {
+    updateTrackStatus(id, language, track => (track.translatedVtt
+      ? { translatedVtt: serializeVtt(replaceCueText(parseVtt(track.translatedVtt), cueIndex, text)) }
+      : {}));
+    const job = jobs.find(item => item.id === id);
+    const translatedVtt = job?.tracks.find(track => track.language === language)?.translatedVtt;
+    if (job && translatedVtt) {
+      recheckCorrectedCues(job, language, replaceCueText(parseVtt(translatedVtt), cueIndex, text), [cueIndex]);
+    }
+  };
+
+  const handleRebalanceLines = (id: number, language: string) => {
+    updateTrackStatus(id, language, track => {
+      if (!track.translatedVtt) return {};
+      const document = parseVtt(track.translatedVtt);
+      return { translatedVtt: serializeVtt(replaceCues(document, rebalanceCueLines(getCues(document), readabilityLimits.maxCharsPerLine))) };
+    });
+  };
+
+  // Accepted corrections replace the draft of their cue; dismissed ones are dropped and the draft stays.
+  const handleResolveSuggestions = (id: number, language: string, cueIndexes: number[], accept: boolean) => {
+    updateTrackStatus(id, language, track => {
+      const resolved = (track.reviewSuggestions ?? []).filter(suggestion => cueIndexes.includes(suggestion.cueIndex));
+      const remaining = (track.reviewSuggestions ?? []).filter(suggestion => !cueIndexes.includes(suggestion.cueIndex));
+      let translatedVtt = track.translatedVtt;
+      if (accept && translatedVtt) {
+        const document = resolved.reduce((current, suggestion) => replaceCueText(current, suggestion.cueIndex, suggestion.text), parseVtt(translatedVtt));
+        translatedVtt = serializeVtt(document);
+      }
+      return { translatedVtt, reviewSuggestions: remaining.length > 0 ? remaining : undefined };
+    });
+    const job = jobs.find(item => item.id === id);
+    const track = job?.tracks.find(item => item.language === language);
+    const accepted = accept ? (track?.reviewSuggestions ?? []).filter(suggestion => cueIndexes.includes(suggestion.cueIndex)) : [];
+    if (job && track?.translatedVtt && accepted.length > 0) {
+      const document = accepted.reduce((current, suggestion) => replaceCueText(current, suggestion.cueIndex, suggestion.text), parseVtt(track.translatedVtt));
+      recheckCorrectedCues(job, language, document, accepted.map(suggestion => suggestion.cueIndex));
+    }
+  };
+
+  const handleReviewCue = (id: number, language: string, cueIndex: number, status: CueReviewStatus | undefined) => {
+    updateTrackStatus(id, language, track => {
+      const cueReviews = { ...track.cueReviews };
+      if (status) cueReviews[cueIndex] = status;
+      else delete cueReviews[cueIndex];
+      return { cueReviews };
+    });
+  };
   
+  const handleOutputFormatChange = (id: number, outputFormat: SubtitleFormat) => {
+    updateJobStatus(id, { outputFormat });
+  };
+
   const handleClearQueue = () => {
     setJobs([]);
     setNotification(null);
   };
   
-  const validateTranslation = (originalVtt: string, finalAiOutput: string) => {
-      const originalCueCount = countCues(originalVtt);
-      const translatedContent = finalAiOutput.trim();
-      const translatedCueCount = countCues(translatedContent);
-      
-      const isSufficient = translatedCueCount >= originalCueCount * 0.95;
-      const isNotExcessive = translatedCueCount <= originalCueCount + 5;
-
-      if (!isSufficient || !isNotExcessive) {
-        throw new Error(`Validation Failed: Mismatched subtitle cues. Original: ${originalCueCount}, Translated: ${translatedCueCount}. The AI likely produced an incomplete or malformed response.`);
+  const validateTranslation = (originalDocument: VttDocument, translatedDocument: VttDocument) => {
+      const originalCues = getCues(originalDocument);
+      const translatedCues = getCues(translatedDocument);
+
+      if (originalCues.length !== translatedCues.length) {
+        throw new Error(`Validation Failed: Mismatched subtitle cues. Original: ${originalCues.length}, Translated: ${translatedCues.length}. The AI likely produced an incomplete or malformed response.`);
+      }
+
+      const shiftedIndex = originalCues.findIndex((cue, index) =>
+        cue.startTime !== translatedCues[index].startTime || cue.endTime !== translatedCues[index].endTime
+      );
+      if (shiftedIndex !== -1) {
+        throw new Error(`Validation Failed: Timing of cue ${shiftedIndex + 1} does not match the original.`);
       }
   };
 
   const handleProcessQueue = useCallback(async () => {
-    if (!isApiKeySet) {
-        setNotification({ type: 'error', message: 'Please set your Gemini API Key before starting.' });
+    if (!isProviderReady) {
+        setNotification({ type: 'error', message: providerSettings.type === 'gemini'
+            ? 'Please set your Gemini API Key before starting.'
+            : 'Please enter the server base URL and model before starting.' });
         return;
     }
-    if (isProcessingQueue || jobs.filter(j => j.status === 'queued').length === 0) {
+    const queue = jobs.flatMap(job =>
+        job.tracks.filter(track => track.status === 'queued' || track.status === 'paused').map(track => ({ job, track }))
+    );
+    if (isProcessingQueue || queue.length === 0) {
         return;
     }
 
     setIsProcessingQueue(true);
     stopRequest.current = false;
-    const queuedJobs = jobs.filter(j => j.status === 'queued');
-    logToConsole(`Starting translation for ${queuedJobs.length} file(s)...`, 'info');
+    const provider: TranslationProvider = createTranslationProvider(providerSettings, apiKey, generationConfig);
+    const runSettings: RunSettings = { provider: provider.name, model: provider.model, generationConfig, useMemory };
+    const fileCount = new Set(queue.map(({ job }) => job.id)).size;
+    logToConsole(`Starting ${queue.length} translation(s) of ${fileCount} file(s) with ${provider.name} (${provider.model})...`, 'info');
     setNotification({ 
         type: 'info', 
-        message: `Processing ${queuedJobs.length} file(s)... See console for details.` 
+        message: `Processing ${queue.length} translation(s) of ${fileCount} file(s)... See console for details.` 
     });
     
     let hasError = false;
     let wasStopped = false;
-
-    for (const job of jobs) {
-      if (job.status !== 'queued') continue;
-      
-      if (stopRequest.current) {
-        wasStopped = true;
-        break;
+    const rateLimiter = createRateLimiter(rateLimits);
+    // Every track of a file translates the same parsed source.
+    const sourceDocuments = new Map<number, Promise<VttDocument>>();
+    const loadSourceDocument = (job: TranslationJob) => {
+      let sourceDocument = sourceDocuments.get(job.id);
+      if (!sourceDocument) {
+        sourceDocument = readFileAsText(job.file).then(fileContent => {
+          if (!fileContent.trim()) throw new Error('Subtitle file is empty or could not be read.');
+          return parseSubtitle(fileContent, job.format);
+        });
+        sourceDocuments.set(job.id, sourceDocument);
+      }
+      return sourceDocument;
+    };
+    // Every track of a file is split by the same token counts, so each file is counted once.
+    const tokenCountsByJob = new Map<number, Promise<number[]>>();
+    const loadTokenCounts = (job: TranslationJob, cues: Cue[]) => {
+      let tokenCounts = tokenCountsByJob.get(job.id);
+      if (!tokenCounts) {
+        // Counting is a request too, so it waits for rate limit capacity; a pause falls back to the estimate.
+        tokenCounts = (async () => {
+          if (!provider.countTokens || !await rateLimiter.acquire(0, () => stopRequest.current)) {
+            return countCueTokens(cues);
+          }
+          return countCueTokens(cues, provider).catch(error => {
+            logToConsole(`Could not count the tokens of ${job.file.name}; estimating chunk sizes instead. (${provider.classifyError(error).message})`, 'warn');
+            return countCueTokens(cues);
+          });
+        })();
+        tokenCountsByJob.set(job.id, tokenCounts);
       }
-      
-      logToConsole(`Processing file: ${job.file.name}`, 'info');
+      return tokenCounts;
+    };
+
+    const processTrack = async ({ job, track }: { job: TranslationJob; track: TranslationTrack }) => {
+      const trackName = `${job.file.name} [${track.language}]`;
+      const trackLanguages: LanguagePair = { source: job.sourceLanguage, target: track.language };
+      const updateTrack = (updates: Partial<TranslationTrack>) => updateTrackStatus(job.id, track.language, updates);
+      logToConsole(`Processing file: ${job.file.name} (${getLanguageName(trackLanguages.source)} → ${getLanguageName(trackLanguages.target)})`, 'info');
 
-      let vttHeader = '';
-      let finalTranslatedContent = '';
-      let chatSession: Chat | undefined = undefined;
+      // Set when this track was interrupted by the stop button and went back to the queue.
+      let stopped = false;
+      const trackUsage: TranslationUsage = { promptTokens: 0, outputTokens: 0 };
 
 
       try {
-        updateJobStatus(job.id, { status: 'processing', translatedVtt: '', error: undefined });
-        const vttInput = await readFileAsText(job.file);
+        // Approve/flag verdicts on chunks kept from before a pause stay; a fresh run starts without any.
+        const isResuming = track.completedChunks !== undefined || track.chunkIndex !== undefined;
+        updateTrack({
+            status: 'processing', translatedVtt: '', error: undefined, runSettings, glossaryIssues: undefined, markupIssues: undefined,
+            ...(isResuming ? {} : { cueReviews: undefined }),
+        });
 
-        if (!vttInput.trim()) throw new Error('VTT file is empty or could not be read.');
-        
-        const { header, cues } = splitVttIntoCues(vttInput);
-        vttHeader = header;
-        finalTranslatedContent = vttHeader ? `${vttHeader}\n\n` : '';
+        const sourceDocument = await loadSourceDocument(job);
+        const cues = getCues(sourceDocument);
 
         if (cues.length === 0) {
-             updateJobStatus(job.id, { status: 'completed', translatedVtt: vttHeader });
-             continue;
+             updateTrack({ status: 'completed', translatedVtt: serializeVtt(setHeaderMetadata(sourceDocument, 'Language', track.language)) });
+             return;
         }
 
-        const chunks = groupCuesIntoChunks(cues, CUES_PER_CHUNK);
+        const translatedCues: Cue[] = [];
+        const completedChunks: Cue[][] = [];
+        const glossaryIssues: GlossaryIssue[] = [];
+        const markupIssues: MarkupIssue[] = [];
+        const reviewSuggestions: ReviewSuggestion[] = [];
+        let translatedPreview = sourceDocument.header ? `${sourceDocument.header}\n\n` : '';
+        // Chunks finished before a pause, an error or a reload are reused instead of being paid for again.
+        const savedCues = track.completedChunks?.flat()
+            ?? await loadTranslatedCues(job.id, track.language, job.sourceLanguage).catch(() => []);
+        // Corrections proposed for chunks that are kept stay open for review.
+        reviewSuggestions.push(...(track.reviewSuggestions ?? []).filter(suggestion => suggestion.cueIndex < savedCues.length));
+        if (savedCues.length > 0) {
+            logToConsole(`Resuming ${trackName} with ${savedCues.length} of ${cues.length} cues already translated.`, 'info');
+        }
+        // Lines seen in earlier files, like intros and catchphrases, are filled in from the translation memory,
+        // unless this run should translate everything afresh, e.g. after a glossary or model change.
+        const memoryTexts = useMemory
+            ? findMemoryMatches(cues, await loadMemoryEntries(trackLanguages).catch(() => []))
+            : cues.map(() => undefined);
+        const knownTexts = cues.map((cue, index) => index < savedCues.length ? savedCues[index].text : memoryTexts[index]);
+        const memoryCount = memoryTexts.filter((text, index) => text !== undefined && index >= savedCues.length).length;
+        if (memoryCount > 0) {
+            logToConsole(`Filled ${memoryCount} of ${cues.length} cues of ${trackName} from the translation memory.`, 'info');
+        }
+        // Chunks are sized with the model's own tokenizer where the provider has one.
+        const tokenCounts = await loadTokenCounts(job, cues);
+        // The reply is usually longer than the cues sent, so a capped reply leaves room for twice the budget.
+        const maxTokens = generationConfig.maxOutputTokens
+            ? Math.max(1, Math.min(CHUNK_TOKEN_BUDGET, Math.floor(generationConfig.maxOutputTokens / 2)))
+            : CHUNK_TOKEN_BUDGET;
+        const chunks = groupCuesByTokenBudget(cues, knownTexts, tokenCounts, { maxTokens, maxCues: MAX_CUES_PER_CHUNK });
+        logToConsole(`Split ${trackName} into ${chunks.length} chunk(s) of up to ${maxTokens} tokens, ending at sentence ends and scene changes.`);
+
+        // Keeps everything translated so far; the next run continues from the next chunk.
+        const pauseTrack = (message: string) => {
+            stopped = true;
+            wasStopped = true;
+            updateTrack({ status: 'paused', translatedVtt: translatedPreview, error: undefined });
+            logToConsole(message, 'warn');
+        };
         
         for (let i = 0; i < chunks.length; i++) {
-            if (stopRequest.current) {
-                wasStopped = true;
-                updateJobStatus(job.id, { status: 'queued', translatedVtt: '', progress: undefined, error: undefined });
-                logToConsole(`Stopped processing before chunk ${i+1} of ${job.file.name}. Reverting status to 'queued'.`, 'warn');
-                break;
-            }
-
-            const chunk = chunks[i];
-            updateJobStatus(job.id, { progress: { current: i + 1, total: chunks.length } });
-            
-            let chunkAccumulatedText = '';
-            let chunkSucceeded = false;
+            const { start: chunkStart, cues: chunk } = chunks[i];
+            // Translated text per cue of the chunk; cues still undefined are sent to the model, and re-requested on the next attempt.
+            const chunkTexts = chunk.map((_, index) => knownTexts[chunkStart + index]);
+            const requestCount = chunkTexts.filter(text => text === undefined).length;
 
-            for (let attempt = 1; attempt <= MAX_CHUNK_RETRIES + 1; attempt++) {
+            if (requestCount > 0) {
                 if (stopRequest.current) {
-                    wasStopped = true;
-                    updateJobStatus(job.id, { status: 'queued', translatedVtt: '', progress: undefined, error: undefined });
-                    logToConsole(`Stopped processing during chunk ${i+1} attempt. Reverting status to 'queued'.`, 'warn');
+                    pauseTrack(`Paused ${trackName} before chunk ${i+1}. ${i} of ${chunks.length} chunks are kept.`);
                     break;
                 }
 
-                try {
-                    logToConsole(`Translating ${job.file.name} (chunk ${i + 1}/${chunks.length}` + (attempt > 1 ? `, attempt ${attempt}` : '') + `)...`);
-                    
-                    chunkAccumulatedText = ''; // Reset for each attempt
+                updateTrack({ progress: { current: i + 1, total: chunks.length } });
+                
+                let chunkAccumulatedText = '';
+                let chunkSucceeded = false;
 
-                    const { chat, stream } = await translateVttWithChat(chatSession, chunk, apiKey, glossary);
-                    if (!chatSession) chatSession = chat;
-                    
-                    for await (const chunkResponse of stream) {
-                        chunkAccumulatedText += chunkResponse.text;
-                        const partialUpdate = finalTranslatedContent + chunkAccumulatedText;
-                        updateJobStatus(job.id, { translatedVtt: partialUpdate });
+                for (let attempt = 1; attempt <= MAX_CHUNK_RETRIES + 1; attempt++) {
+                    if (stopRequest.current) {
+                        pauseTrack(`Paused ${trackName} during chunk ${i+1}. ${i} of ${chunks.length} chunks are kept.`);
+                        break;
                     }
 
-                    const originalChunkCueCount = countCues(chunk);
-                    const translatedChunkCueCount = countCues(chunkAccumulatedText);
+                    const pendingIndexes = chunkTexts.flatMap((text, index) => text === undefined ? [index] : []);
+                    const pendingCues = pendingIndexes.map(index => chunk[index]);
+                    const isRepair = pendingCues.length < requestCount;
 
-                    if (originalChunkCueCount !== translatedChunkCueCount) {
-                        throw new Error(`Chunk validation failed. Expected ${originalChunkCueCount} cues, but received ${translatedChunkCueCount}.`);
-                    }
+                    try {
+                        logToConsole(isRepair
+                            ? `Repairing ${pendingCues.length} cue(s) of ${trackName} (chunk ${i + 1}/${chunks.length}, attempt ${attempt})...`
+                            : `Translating ${trackName} (chunk ${i + 1}/${chunks.length}` + (attempt > 1 ? `, attempt ${attempt}` : '') + `)...`);
                     
-                    logToConsole(`Chunk ${i+1}/${chunks.length} of ${job.file.name} translated successfully.`, 'info');
-                    chunkSucceeded = true;
-                    break; 
-                } catch (error) {
-                    console.warn(`Attempt ${attempt} for chunk ${i + 1} of ${job.file.name} failed.`, error);
-                    chatSession = undefined; // Invalidate session to start fresh on retry
-
-                    if (attempt > MAX_CHUNK_RETRIES) {
-                        throw new Error(`Failed to translate chunk ${i + 1} after ${MAX_CHUNK_RETRIES + 1} attempts. Last error: ${(error as Error).message}`);
+                        chunkAccumulatedText = ''; // Reset for each attempt
+
+                        const estimatedTokens = estimateRequestTokens(serializeCues(pendingCues));
+                        if (!await rateLimiter.acquire(estimatedTokens, () => stopRequest.current)) {
+                            pauseTrack(`Paused ${trackName} while waiting for rate limit capacity. ${i} of ${chunks.length} chunks are kept.`);
+                            break;
+                        }
+
+                        // Every request stands alone: the translated cues before it and the source cues after it
+                        // are its only context, so a retry sees the same window as the first attempt.
+                        const firstPending = chunkStart + pendingIndexes[0];
+                        const lastPending = chunkStart + pendingIndexes[pendingIndexes.length - 1];
+                        const translatedBefore = [
+                            ...translatedCues,
+                            ...chunk.slice(0, pendingIndexes[0]).map((cue, index) => ({ ...cue, text: chunkTexts[index]! })),
+                        ].slice(-CONTEXT_CUES);
+                        const context = {
+                            sourceCues: cues.slice(firstPending - translatedBefore.length, firstPending),
+                            translatedCues: translatedBefore,
+                            followingCues: cues.slice(lastPending + 1, lastPending + 1 + CONTEXT_CUES),
+                        };
+                        const translate = translationMode === 'json' ? translateCuesAsJson : translateCuesAsVtt;
+                        const stream = await translate(pendingCues, provider, { glossary, languages: trackLanguages, context });
+                    
+                        let requestUsage: TranslationUsage | undefined;
+                        let isTruncated = false;
+                        for await (const chunkResponse of stream) {
+                            chunkAccumulatedText += chunkResponse.text;
+                            if (chunkResponse.usage) requestUsage = chunkResponse.usage;
+                            if (chunkResponse.truncated) isTruncated = true;
+                            // Partial JSON is not meaningful to show, so only VTT mode streams into the preview.
+                            if (translationMode === 'vtt') {
+                                const partialUpdate = translatedPreview + chunkAccumulatedText;
+                                updateTrack({ translatedVtt: partialUpdate });
+                            }
+                        }
+
+                        rateLimiter.settle(estimatedTokens, requestUsage
+                            ? requestUsage.promptTokens + requestUsage.outputTokens
+                            : estimatedTokens);
+                        if (requestUsage) {
+                            trackUsage.promptTokens += requestUsage.promptTokens;
+                            trackUsage.outputTokens += requestUsage.outputTokens;
+                            updateTrack({ usage: { ...trackUsage } });
+                            logToConsole(`Request used ${requestUsage.promptTokens} prompt + ${requestUsage.outputTokens} output tokens.`);
+                        }
+
+                        // A reply cut off at the output limit ends mid-cue: cut-off JSON cannot be used at all,
+                        // while in VTT mode only its last cue is dropped and requested again with the missing ones.
+                        if (isTruncated && translationMode === 'json') {
+                            throw new ValidationError('Chunk validation failed. The reply was cut off at the output token limit.');
+                        }
+                        if (isTruncated) {
+                            logToConsole(`Chunk ${i+1}/${chunks.length} of ${trackName}: the reply was cut off at the output token limit.`, 'warn');
+                        }
+                        const translatedTexts = translationMode === 'json'
+                            ? parseCueTranslations(chunkAccumulatedText, pendingCues.length)
+                            : alignTranslatedCues(pendingCues, getCues(parseVtt(chunkAccumulatedText)).slice(0, isTruncated ? -1 : undefined));
+                        translatedTexts.forEach((text, index) => {
+                            chunkTexts[pendingIndexes[index]] = text;
+                        });
+
+                        const unresolvedCount = chunkTexts.filter(text => text === undefined).length;
+                        if (unresolvedCount > 0) {
+                            if (attempt > MAX_CHUNK_RETRIES) {
+                                throw new ValidationError(`Chunk validation failed. ${unresolvedCount} of ${requestCount} cues were missing, duplicated or merged.`);
+                            }
+                            // Well-formed cues are kept; only the broken ones go out again, with the same context window.
+                            logToConsole(`Chunk ${i+1}/${chunks.length} of ${trackName}: ${unresolvedCount} cue(s) were missing, duplicated or merged. Requesting only those again.`, 'warn');
+                            continue;
+                        }
+
+                        logToConsole(`Chunk ${i+1}/${chunks.length} of ${trackName} translated successfully.`, 'info');
+                        chunkSucceeded = true;
+                        break; 
+                    } catch (error) {
+                        console.warn(`Attempt ${attempt} for chunk ${i + 1} of ${trackName} failed.`, error);
+                        const translationError = provider.classifyError(error);
+
+                        if (!translationError.retryable) {
+                            throw new Error(`Failed to translate chunk ${i + 1}: ${translationError.message}`);
+                        }
+                        if (attempt > MAX_CHUNK_RETRIES) {
+                            throw new Error(`Failed to translate chunk ${i + 1} after ${MAX_CHUNK_RETRIES + 1} attempts. Last error: ${translationError.message}`);
+                        }
+
+                        // Wait exactly as long as the server asked; guess only when it did not say.
+                        const backoffDelay = translationError.retryAfterMs
+                            ?? (translationError instanceof RateLimitedError ? RATE_LIMIT_COOLDOWN_MS : 1500 * Math.pow(2, attempt - 1));
+
+                        // The configured limits were too generous for the real quota; hold back every worker, not just this one.
+                        if (translationError instanceof RateLimitedError) {
+                            rateLimiter.pause(backoffDelay);
+                            logToConsole(`Rate limit hit. Pausing all requests for ${Math.ceil(backoffDelay / 1000)}s. Consider lowering the requests or tokens per minute.`, 'warn');
+                        }
+                    
+                        logToConsole(`Attempt failed for chunk ${i+1} of ${trackName}. Retrying in ${Math.ceil(backoffDelay / 1000)}s... (${translationError.message})`, 'warn');
+                        // A pause request ends the wait; the next attempt then pauses the track.
+                        await sleepUnlessCancelled(backoffDelay, () => stopRequest.current);
                     }
+                }
 
-                    const errorMessage = (error as Error).message.toLowerCase();
-                    let backoffDelay = 1500 * Math.pow(2, attempt - 1);
-
-                    // Add aggressive backoff for rate limit errors
-                    if (errorMessage.includes('resource_exhausted')) {
-                        const newChunkDelay = Math.min(chunkDelay + 5, 30);
-                        logToConsole(`Rate limit hit. Automatically increasing delay between chunks to ${newChunkDelay}s.`, 'warn');
-                        setChunkDelay(newChunkDelay);
-                        
-                        // Apply a significant cooldown on EVERY rate limit failure to allow quota to recover.
-                        const cooldownPeriod = 15000; // 15 seconds cooldown
-                        backoffDelay += cooldownPeriod;
-                        logToConsole(`Applying an additional ${cooldownPeriod / 1000}s cooldown period due to rate limit.`, 'warn');
-                    }
-                    
-                    logToConsole(`Attempt failed for chunk ${i+1} of ${job.file.name}. Retrying in ${backoffDelay / 1000}s...`, 'warn');
-                    await new Promise(resolve => setTimeout(resolve, backoffDelay));
+                if (stopped) break;
+                if (!chunkSucceeded) {
+                    throw new Error(`Chunk ${i + 1} could not be processed successfully.`);
                 }
             }
 
-            if (wasStopped) break;
-
-            if (chunkSucceeded) {
-                finalTranslatedContent += chunkAccumulatedText.trim() + '\n\n';
-            } else {
-                throw new Error(`Chunk ${i + 1} could not be processed successfully.`);
+            // Only the text is taken from the model or the memory; timings and settings stay as in the source.
+            // Tags the model dropped or left open are put back where the source makes their place clear.
+            const { cues: chunkTranslation, repairedCount } = repairCueMarkup(chunk, chunk.map((cue, index) => ({ ...cue, text: chunkTexts[index]! })));
+            if (repairedCount > 0) {
+                logToConsole(`Chunk ${i+1}/${chunks.length} of ${trackName}: repaired the tags of ${repairedCount} cue(s).`, 'info');
+            }
+            if (chunkStart + chunk.length > savedCues.length) {
+                await saveChunk(job.id, track.language, job.sourceLanguage, chunkStart, chunkTranslation)
+                    .catch(error => console.error(`Failed to save chunk ${i + 1} of ${trackName}:`, error));
+            }
+            translatedCues.push(...chunkTranslation);
+            completedChunks.push(chunkTranslation);
+            translatedPreview += serializeCues(chunkTranslation) + '\n\n';
+
+            // The glossary is a rule in the prompt, but nothing guarantees the model followed it.
+            const chunkIssues = findGlossaryIssues(chunk, chunkTranslation, glossary, chunkStart);
+            if (chunkIssues.length > 0) {
+                glossaryIssues.push(...chunkIssues);
+                logToConsole(`Chunk ${i+1}/${chunks.length} of ${trackName}: ${chunkIssues.length} glossary term(s) not translated as required (${chunkIssues.map(issue => `cue ${issue.cueIndex + 1}: "${issue.term}"`).join(', ')}).`, 'warn');
+            }
+            const chunkMarkupIssues = findMarkupIssues(chunk, chunkTranslation, chunkStart);
+            if (chunkMarkupIssues.length > 0) {
+                markupIssues.push(...chunkMarkupIssues);
+                logToConsole(`Chunk ${i+1}/${chunks.length} of ${trackName}: ${chunkMarkupIssues.length} tag problem(s) could not be repaired (${chunkMarkupIssues.map(issue => `cue ${issue.cueIndex + 1}: ${issue.problem} ${issue.tag}`).join(', ')}).`, 'warn');
             }
 
-            if (i < chunks.length - 1 && !stopRequest.current) {
-                logToConsole(`Waiting ${chunkDelay}s before next chunk...`);
-                await new Promise(resolve => setTimeout(resolve, chunkDelay * 1000));
+            // The reviewer only proposes corrections; the draft stays in the track until one is accepted.
+            // A failed review keeps the draft instead of failing the track.
+            const reviewTokens = estimateRequestTokens(serializeCues(chunk) + serializeCues(chunkTranslation));
+            if (selfReview && chunkStart + chunk.length > savedCues.length
+                && await rateLimiter.acquire(reviewTokens, () => stopRequest.current)) {
+                try {
+                    logToConsole(`Reviewing ${trackName} (chunk ${i + 1}/${chunks.length})...`);
+                    const { corrections, usage } = await reviewTranslation(chunk, chunkTranslation, provider, { glossary, languages: trackLanguages });
+                    rateLimiter.settle(reviewTokens, usage ? usage.promptTokens + usage.outputTokens : reviewTokens);
+                    if (usage) {
+                        trackUsage.promptTokens += usage.promptTokens;
+                        trackUsage.outputTokens += usage.outputTokens;
+                        updateTrack({ usage: { ...trackUsage } });
+                    }
+                    reviewSuggestions.push(...corrections.map(correction => ({
+                        cueIndex: chunkStart + correction.index,
+                        draft: chunkTranslation[correction.index].text,
+                        text: repairMarkup(chunk[correction.index].text, correction.text),
+                        reason: correction.reason,
+                    })));
+                    logToConsole(`Chunk ${i+1}/${chunks.length} of ${trackName}: the reviewer proposed ${corrections.length} correction(s).`, 'info');
+                } catch (error) {
+                    const reviewError = provider.classifyError(error);
+                    if (reviewError instanceof RateLimitedError) {
+                        rateLimiter.pause(reviewError.retryAfterMs ?? RATE_LIMIT_COOLDOWN_MS);
+                    }
+                    logToConsole(`Review of chunk ${i+1}/${chunks.length} of ${trackName} failed; the draft is kept. (${reviewError.message})`, 'warn');
+                }
             }
+            updateTrack({
+                translatedVtt: translatedPreview,
+                completedChunks: [...completedChunks],
+                chunkIndex: i + 1,
+                glossaryIssues: glossaryIssues.length > 0 ? [...glossaryIssues] : undefined,
+                markupIssues: markupIssues.length > 0 ? [...markupIssues] : undefined,
+                reviewSuggestions: reviewSuggestions.length > 0 ? [...reviewSuggestions] : undefined,
+            });
         }
 
-        if (wasStopped) break;
+        if (stopped) return;
 
-        validateTranslation(vttInput, finalTranslatedContent);
+        const translatedDocument = setHeaderMetadata(replaceCues(sourceDocument, translatedCues), 'Language', track.language);
+        validateTranslation(sourceDocument, translatedDocument);
         
-        updateJobStatus(job.id, {
+        updateTrack({
             status: 'completed',
-            translatedVtt: finalTranslatedContent.trim(),
+            translatedVtt: serializeVtt(translatedDocument),
             progress: undefined,
+            completedChunks: undefined,
+            chunkIndex: undefined,
         });
-        logToConsole(`Successfully validated and completed translation for ${job.file.name}.`, 'info');
+        logToConsole(`Successfully validated and completed translation for ${trackName}.`, 'info');
+        const readabilityIssues = findReadabilityIssues(translatedCues, readabilityLimits);
+        if (readabilityIssues.length > 0) {
+            logToConsole(`${trackName}: ${readabilityIssues.length} cue(s) exceed ${readabilityLimits.maxCharsPerSecond} characters per second or ${readabilityLimits.maxCharsPerLine} characters per line.`, 'warn');
+        }
+        await deleteChunks(job.id, track.language).catch(() => {});
+        await saveMemoryEntries(createMemoryEntries(cues, translatedCues, trackLanguages))
+            .then(() => setMemoryRevision(revision => revision + 1))
+            .catch(error => console.error(`Failed to add ${trackName} to the translation memory:`, error));
 
       } catch (error) {
         hasError = true;
         const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
-        console.error(`Error processing ${job.file.name}:`, error);
-        updateJobStatus(job.id, { status: 'error', error: errorMessage, progress: undefined });
-        logToConsole(`Error processing ${job.file.name}: ${errorMessage}`, 'error');
+        console.error(`Error processing ${trackName}:`, error);
+        updateTrack({ status: 'error', error: errorMessage, progress: undefined });
+        logToConsole(`Error processing ${trackName}: ${errorMessage}`, 'error');
       }
-
-      const currentIndex = jobs.findIndex(j => j.id === job.id);
-      if (!wasStopped && currentIndex < jobs.length - 1) {
-          const hasMoreQueued = jobs.slice(currentIndex + 1).some(j => j.status === 'queued');
-          if (hasMoreQueued) {
-               logToConsole(`Waiting ${fileDelay}s before processing next file...`);
-               await new Promise(resolve => setTimeout(resolve, fileDelay * 1000));
-          }
+    };
+
+    // Each worker takes the next queued track until the queue is empty; the rate limiter paces their requests.
+    let nextIndex = 0;
+    const runWorker = async () => {
+      while (nextIndex < queue.length) {
+        if (stopRequest.current) {
+          wasStopped = true;
+          return;
+        }
+        await processTrack(queue[nextIndex++]);
       }
-    }
+    };
+    await Promise.all(Array.from({ length: Math.min(rateLimits.concurrency, queue.length) }, runWorker));
 
     if (wasStopped) {
-        setNotification({ type: 'info', message: 'Translation process stopped by user.' });
-        logToConsole('Translation process stopped by user.', 'warn');
+        setNotification({ type: 'info', message: 'Translation paused. Completed chunks are kept; press Resume to continue.' });
+        logToConsole('Translation paused by user.', 'warn');
     } else if (hasError) {
         setNotification({ type: 'error', message: 'Some files failed to translate. Check results and console for details.' });
         logToConsole('Queue processing finished with one or more errors.', 'error');
@@ -308,17 +872,22 @@ const App: React.FC = () => {
     }
 
     setIsProcessingQueue(false);
-  }, [jobs, isProcessingQueue, isApiKeySet, apiKey, fileDelay, chunkDelay, glossary, logToConsole]);
+  }, [jobs, isProcessingQueue, isProviderReady, providerSettings, generationConfig, apiKey, rateLimits, glossary, translationMode, selfReview, useMemory, readabilityLimits, logToConsole]);
   
-  const handleRetryJob = (id: number) => {
-    const jobToRetry = jobs.find(job => job.id === id);
-    if (jobToRetry && (jobToRetry.status === 'error' || jobToRetry.status === 'completed')) {
-      updateJobStatus(id, { 
+  const handleRetryTrack = (id: number, language: string) => {
+    const trackToRetry = jobs.find(job => job.id === id)?.tracks.find(track => track.language === language);
+    if (trackToRetry && (trackToRetry.status === 'error' || trackToRetry.status === 'completed')) {
+      updateTrackStatus(id, language, { 
         status: 'queued', 
         error: undefined, 
         translatedVtt: undefined, 
-        chatSession: undefined,
-        progress: undefined
+        usage: undefined,
+        runSettings: undefined,
+        progress: undefined,
+        glossaryIssues: undefined,
+        markupIssues: undefined,
+        cueReviews: undefined,
+        reviewSuggestions: undefined
       });
       setNeedsProcessing(true);
     }
@@ -339,16 +908,54 @@ const App: React.FC = () => {
             WebVTT Subtitle <span className="text-cyan-400">Translator</span>
           </h1>
           <p className="mt-2 text-lg text-slate-400">
-            AI-powered batch translation from English to Vietnamese.
+            AI-powered batch translation from {getLanguageName(languages.source)} to {languages.targets.map(getLanguageName).join(', ')}.
           </p>
         </header>
         
-        <div className="mb-6">
-          <ApiKeyInput
-            isApiKeySet={isApiKeySet}
-            onSaveKey={handleSaveKey}
-            onClearKey={handleClearKey}
+        <div className="mb-6 space-y-4">
+          <ProviderSettingsPanel
+            settings={providerSettings}
+            onChange={handleProviderSettingsChange}
+            disabled={isProcessingQueue}
+          />
+          <GenerationSettingsPanel
+            value={generationConfig}
+            onChange={handleGenerationConfigChange}
+            supportsThinking={providerSettings.type === 'gemini'}
+            minThinkingBudget={getMinThinkingBudget(providerSettings.geminiModel)}
+            disabled={isProcessingQueue}
           />
+          <ReadabilitySettingsPanel
+            value={readabilityLimits}
+            onChange={handleReadabilityLimitsChange}
+          />
+          {providerSettings.type === 'gemini' && (
+            <ApiKeyInput
+              isApiKeySet={isApiKeySet}
+              onSaveKey={handleSaveKey}
+              onClearKey={handleClearKey}
+            />
+          )}
+          <GlossaryManager
+            glossaries={glossaries}
+            activeGlossaryId={activeGlossaryId}
+            onGlossariesChange={handleGlossariesChange}
+            onActiveGlossaryChange={handleActiveGlossaryChange}
+            languages={languages}
+            onNotify={setNotification}
+            onExtract={handleExtractGlossary}
+            canExtract={isProviderReady && pendingJobs.length > 0}
+            isExtracting={isExtractingGlossary}
+            disabled={isProcessingQueue}
+          />
+          {glossarySuggestions && (
+            <GlossarySuggestions
+              suggestions={glossarySuggestions}
+              onChange={setGlossarySuggestions}
+              onAccept={handleAcceptGlossarySuggestions}
+              onDiscard={() => setGlossarySuggestions(null)}
+            />
+          )}
         </div>
 
         {notification && (
@@ -369,17 +976,36 @@ const App: React.FC = () => {
             onClearQueue={handleClearQueue}
             onStopQueue={handleStopQueue}
             isProcessing={isProcessingQueue}
-            isApiKeySet={isApiKeySet}
-            fileDelay={fileDelay}
-            onFileDelayChange={setFileDelay}
-            chunkDelay={chunkDelay}
-            onChunkDelayChange={setChunkDelay}
-            glossary={glossary}
-            onGlossaryChange={setGlossary}
+            isProviderReady={isProviderReady}
+            rateLimits={rateLimits}
+            onRateLimitsChange={handleRateLimitsChange}
+            translationMode={translationMode}
+            onTranslationModeChange={handleTranslationModeChange}
+            selfReview={selfReview}
+            onSelfReviewChange={handleSelfReviewChange}
+            useMemory={useMemory}
+            onUseMemoryChange={handleUseMemoryChange}
+            languages={languages}
+            onLanguagesChange={handleLanguagesChange}
+          />
+          <ResultsDisplay
+            jobs={jobs}
+            onRetryTrack={handleRetryTrack}
+            onOutputFormatChange={handleOutputFormatChange}
+            onEditCue={handleEditCue}
+            onReviewCue={handleReviewCue}
+            dualSubtitles={dualSubtitles}
+            onDualSubtitlesChange={handleDualSubtitlesChange}
+            readabilityLimits={readabilityLimits}
+            onRebalanceLines={handleRebalanceLines}
+            onResolveSuggestions={handleResolveSuggestions}
           />
-          <ResultsDisplay jobs={jobs} onRetryJob={handleRetryJob} />
         </div>
         
+        <div className="mt-6">
+          <TranslationMemoryPanel languages={languages} revision={memoryRevision} onNotify={setNotification} />
+        </div>
+
         <div className="mt-6">
           <Console messages={consoleMessages} onClear={handleClearConsole} />
         </div>
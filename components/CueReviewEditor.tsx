@@ -0,0 +1,443 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import clsx from 'clsx';
+import { CueReviewStatus, TranslationJob, TranslationTrack } from '../App';
+import { CheckIcon } from './icons/CheckIcon';
+import { VideoPreview } from './VideoPreview';
+import { Cue, VttDocument, formatTimestamp, getCues, parseVtt } from '../utils/vttUtils';
+import { parseSubtitle, removeFormatPlaceholders } from '../utils/subtitleFormats';
+import { readFileAsText } from '../utils/fileUtils';
+import { GlossaryIssue } from '../utils/glossaryUtils';
+import { MarkupIssue } from '../utils/markupUtils';
+import { ReadabilityIssue, rebalanceLines } from '../utils/readabilityUtils';
+
+interface CueReviewEditorProps {
+  job: TranslationJob;
+  track: TranslationTrack;
+  onEditCue: (id: number, language: string, cueIndex: number, text: string) => void;
+  onReviewCue: (id: number, language: string, cueIndex: number, status: CueReviewStatus | undefined) => void;
+  readabilityIssues: ReadabilityIssue[];
+  maxCharsPerLine: number;
+}
+
+interface CueRowProps {
+  index: number;
+  sourceCue: Cue | undefined;
+  cue: Cue;
+  review: CueReviewStatus | undefined;
+  /** Glossary terms whose required translation is missing from this cue. */
+  glossaryIssues: GlossaryIssue[];
+  /** Tags of the source that are missing, added or left open in this cue. */
+  markupIssues: MarkupIssue[];
+  readabilityIssue: ReadabilityIssue | undefined;
+  isActive: boolean;
+  /** Whether the preview video is currently showing this cue. */
+  isPlaying: boolean;
+  rowRef: (element: HTMLDivElement | null) => void;
+  textareaRef: (element: HTMLTextAreaElement | null) => void;
+  onActivate: () => void;
+  onSeek: () => void;
+  onCommit: (text: string) => void;
+  /** Re-breaks the lines of this cue at word boundaries. */
+  onRebalance: () => void;
+  onToggleReview: (status: CueReviewStatus) => void;
+  onTextareaKeyDown: (e: React.KeyboardEvent<HTMLTextAreaElement>) => void;
+}
+
+type ReviewFilter = 'all' | 'unreviewed' | 'flagged' | 'readability';
+
+const FILTER_LABELS: Record<ReviewFilter, string> = {
+  all: 'All',
+  unreviewed: 'Unreviewed',
+  flagged: 'Flagged',
+  readability: 'Over limits',
+};
+
+const inputClassName = "bg-slate-900/70 border border-slate-600 rounded-md shadow-sm px-2 py-1 text-xs text-slate-200 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+const CueRow: React.FC<CueRowProps> = ({
+  index, sourceCue, cue, review, glossaryIssues, markupIssues, readabilityIssue, isActive, isPlaying, rowRef, textareaRef,
+  onActivate, onSeek, onCommit, onRebalance, onToggleReview, onTextareaKeyDown
+}) => {
+  const [draft, setDraft] = useState(cue.text);
+
+  useEffect(() => {
+    setDraft(cue.text);
+  }, [cue.text]);
+
+  // An emptied cue would disappear from the file, so clearing the text restores it instead.
+  const handleBlur = () => {
+    if (!draft.trim()) {
+      setDraft(cue.text);
+    } else if (draft !== cue.text) {
+      onCommit(draft);
+    }
+  };
+
+  return (
+    <div
+      ref={rowRef}
+      onClick={() => {
+        onActivate();
+        onSeek();
+      }}
+      className={clsx(
+        "grid grid-cols-[3rem_1fr_1fr_auto] gap-3 items-start px-2 py-2 border-t border-slate-700/70 border-l-2",
+        isActive ? "bg-slate-700/60 border-l-cyan-400" : "border-l-transparent",
+        isPlaying && !isActive && "bg-cyan-900/20",
+        review === 'flagged' && !isActive && "border-l-amber-500",
+        review === 'approved' && !isActive && "border-l-green-600"
+      )}
+    >
+      <div className="text-xs text-slate-500 font-mono">
+        <div className={clsx(isPlaying ? "text-cyan-300" : "text-slate-300")}>#{index + 1}</div>
+      </div>
+      <div>
+        <div className="text-[11px] text-slate-500 font-mono mb-1">
+          {formatTimestamp(cue.startTime)} → {formatTimestamp(cue.endTime)}
+        </div>
+        <p className="text-sm text-slate-400 whitespace-pre-wrap break-words">{sourceCue?.text}</p>
+        {glossaryIssues.map(issue => (
+          <p key={issue.term} className="mt-1 text-[11px] text-amber-300">
+            Glossary: "{issue.term}" → "{issue.translation}"
+          </p>
+        ))}
+        {markupIssues.map(issue => (
+          <p key={`${issue.problem} ${issue.tag}`} className="mt-1 text-[11px] text-rose-300">
+            Tag {issue.problem}: <code>{issue.tag}</code>
+          </p>
+        ))}
+        {readabilityIssue && (
+          <p className="mt-1 text-[11px] text-orange-300">
+            {readabilityIssue.exceedsCharsPerSecond && `${readabilityIssue.charsPerSecond} characters/second`}
+            {readabilityIssue.exceedsCharsPerSecond && readabilityIssue.exceedsCharsPerLine && ' · '}
+            {readabilityIssue.exceedsCharsPerLine && (
+              <>
+                {`${readabilityIssue.longestLine} characters on a line `}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onRebalance();
+                  }}
+                  className="underline hover:text-cyan-300 focus:outline-none focus:text-cyan-300"
+                >
+                  Rebalance
+                </button>
+              </>
+            )}
+          </p>
+        )}
+      </div>
+      <textarea
+        ref={textareaRef}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onFocus={onActivate}
+        onBlur={handleBlur}
+        onKeyDown={onTextareaKeyDown}
+        rows={Math.max(2, draft.split('\n').length)}
+        aria-label={`Translation of cue ${index + 1}`}
+        className="w-full p-1.5 bg-slate-900/50 rounded-md text-slate-200 text-sm border border-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 resize-y"
+        spellCheck="false"
+      />
+      <div className="flex flex-col gap-1">
+        <button
+          onClick={() => onToggleReview('approved')}
+          className={clsx(
+            "p-1 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors",
+            review === 'approved' ? "bg-green-600/30 text-green-300" : "text-slate-500 hover:text-green-300 hover:bg-slate-600"
+          )}
+          aria-pressed={review === 'approved'}
+          title="Approve (A)"
+        >
+          <CheckIcon className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => onToggleReview('flagged')}
+          className={clsx(
+            "px-1 rounded-md text-xs font-bold focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors",
+            review === 'flagged' ? "bg-amber-500/30 text-amber-300" : "text-slate-500 hover:text-amber-300 hover:bg-slate-600"
+          )}
+          aria-pressed={review === 'flagged'}
+          title="Flag for another look (F)"
+        >
+          !
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Lists each cue with its timing, source text and editable translation.
+ * Keyboard: ↑/↓ or K/J move between cues, Enter edits, A approves, F flags.
+ * While editing, Alt+↑/↓ moves to the neighboring cue and Escape stops editing.
+ * A local video can be opened to play both tracks; clicking a cue seeks to it.
+ */
+export const CueReviewEditor: React.FC<CueReviewEditorProps> = ({
+  job, track, onEditCue, onReviewCue, readabilityIssues, maxCharsPerLine
+}) => {
+  const [sourceDocument, setSourceDocument] = useState<VttDocument | null>(null);
+  const [search, setSearch] = useState('');
+  const [filter, setFilter] = useState<ReviewFilter>('all');
+  const [jumpTo, setJumpTo] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [playingIndex, setPlayingIndex] = useState(-1);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const rowRefs = useRef(new Map<number, HTMLDivElement>());
+  const textareaRefs = useRef(new Map<number, HTMLTextAreaElement>());
+
+  useEffect(() => {
+    let isCurrent = true;
+    readFileAsText(job.file)
+      .then(content => {
+        // The source is only shown, so placeholders of ASS override blocks are left out.
+        if (isCurrent) setSourceDocument(removeFormatPlaceholders(parseSubtitle(content, job.format), job.format));
+      })
+      .catch(error => console.error('Failed to read the source file for review:', error));
+    return () => {
+      isCurrent = false;
+    };
+  }, [job.file, job.format]);
+
+  const sourceCues = useMemo(() => (sourceDocument ? getCues(sourceDocument) : []), [sourceDocument]);
+  const translatedDocument = useMemo(() => parseVtt(track.translatedVtt ?? ''), [track.translatedVtt]);
+  const cues = useMemo(() => getCues(translatedDocument), [translatedDocument]);
+  // The translation keeps its placeholders for editing; the video shows it as it is downloaded.
+  const previewTracks = useMemo(() => [
+    ...(sourceDocument ? [{ language: job.sourceLanguage, document: sourceDocument }] : []),
+    { language: track.language, document: removeFormatPlaceholders(translatedDocument, job.format), isDefault: true },
+  ], [sourceDocument, translatedDocument, job.sourceLanguage, job.format, track.language]);
+  const reviews = track.cueReviews ?? {};
+  const issuesByCue = useMemo(() => {
+    const issues = new Map<number, GlossaryIssue[]>();
+    track.glossaryIssues?.forEach(issue => issues.set(issue.cueIndex, [...(issues.get(issue.cueIndex) ?? []), issue]));
+    return issues;
+  }, [track.glossaryIssues]);
+  const markupIssuesByCue = useMemo(() => {
+    const issues = new Map<number, MarkupIssue[]>();
+    track.markupIssues?.forEach(issue => issues.set(issue.cueIndex, [...(issues.get(issue.cueIndex) ?? []), issue]));
+    return issues;
+  }, [track.markupIssues]);
+
+  const readabilityByCue = useMemo(
+    () => new Map(readabilityIssues.map(issue => [issue.cueIndex, issue])),
+    [readabilityIssues]
+  );
+
+  const visibleIndexes = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return cues.flatMap((cue, index) => {
+      const review = track.cueReviews?.[index];
+      if (filter === 'flagged' && review !== 'flagged') return [];
+      if (filter === 'unreviewed' && review !== undefined) return [];
+      if (filter === 'readability' && !readabilityByCue.has(index)) return [];
+      if (query && !cue.text.toLowerCase().includes(query) && !sourceCues[index]?.text.toLowerCase().includes(query)) return [];
+      return [index];
+    });
+  }, [cues, sourceCues, search, filter, track.cueReviews, readabilityByCue]);
+
+  useEffect(() => {
+    rowRefs.current.get(activeIndex)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  // The list follows playback, but leaves the scroll position alone while the video is paused.
+  useEffect(() => {
+    if (playingIndex !== -1 && videoRef.current && !videoRef.current.paused) {
+      rowRefs.current.get(playingIndex)?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [playingIndex]);
+
+  const handleTimeUpdate = (time: number) => {
+    setPlayingIndex(cues.findIndex(cue => cue.startTime <= time && time < cue.endTime));
+  };
+
+  const seekTo = (index: number) => {
+    const video = videoRef.current;
+    if (video && cues[index]) video.currentTime = cues[index].startTime / 1000;
+  };
+
+  const handleVideoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      setVideoFile(file);
+      setPlayingIndex(-1);
+    }
+  };
+
+  const approvedCount = Object.values(reviews).filter(status => status === 'approved').length;
+  const flaggedCount = Object.values(reviews).filter(status => status === 'flagged').length;
+
+  const toggleReview = (index: number, status: CueReviewStatus) => {
+    onReviewCue(job.id, track.language, index, reviews[index] === status ? undefined : status);
+  };
+
+  // Moves through the cues currently listed, staying put at either end.
+  const move = (offset: number, edit: boolean) => {
+    const position = visibleIndexes.indexOf(activeIndex);
+    const next = visibleIndexes[Math.min(visibleIndexes.length - 1, Math.max(0, position + offset))];
+    if (next === undefined) return;
+    setActiveIndex(next);
+    if (edit) textareaRefs.current.get(next)?.focus();
+  };
+
+  const handleListKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLInputElement) return;
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'j':
+        move(1, false);
+        break;
+      case 'ArrowUp':
+      case 'k':
+        move(-1, false);
+        break;
+      case 'Enter':
+        textareaRefs.current.get(activeIndex)?.focus();
+        break;
+      case 'a':
+        toggleReview(activeIndex, 'approved');
+        break;
+      case 'f':
+        toggleReview(activeIndex, 'flagged');
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const handleTextareaKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      listRef.current?.focus();
+    } else if (e.altKey && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+      e.preventDefault();
+      move(e.key === 'ArrowDown' ? 1 : -1, true);
+    }
+  };
+
+  const handleJump = (e: React.FormEvent) => {
+    e.preventDefault();
+    const index = Number(jumpTo) - 1;
+    if (!Number.isInteger(index) || index < 0 || index >= cues.length) return;
+    // A cue hidden by the search or filter is shown by clearing them.
+    if (!visibleIndexes.includes(index)) {
+      setSearch('');
+      setFilter('all');
+    }
+    setActiveIndex(index);
+    seekTo(index);
+    listRef.current?.focus();
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search source or translation"
+          className={clsx(inputClassName, "flex-grow min-w-[10rem]")}
+        />
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as ReviewFilter)}
+          aria-label="Show cues"
+          className={inputClassName}
+        >
+          {(Object.keys(FILTER_LABELS) as ReviewFilter[]).map(value => (
+            <option key={value} value={value}>{FILTER_LABELS[value]}</option>
+          ))}
+        </select>
+        <form onSubmit={handleJump} className="flex items-center gap-1">
+          <input
+            type="number"
+            min={1}
+            max={cues.length}
+            value={jumpTo}
+            onChange={(e) => setJumpTo(e.target.value)}
+            placeholder="Cue #"
+            aria-label="Jump to cue"
+            className={clsx(inputClassName, "w-20")}
+          />
+          <button type="submit" className="px-2 py-1 text-xs font-medium rounded-md text-slate-300 bg-slate-700 hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-500">
+            Go
+          </button>
+        </form>
+        {videoFile ? (
+          <button
+            onClick={() => setVideoFile(null)}
+            className="px-2 py-1 text-xs font-medium rounded-md text-slate-300 bg-slate-700 hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          >
+            Close Video
+          </button>
+        ) : (
+          <label
+            className="px-2 py-1 text-xs font-medium rounded-md text-slate-300 bg-slate-700 hover:bg-slate-600 cursor-pointer focus-within:ring-2 focus-within:ring-cyan-500"
+            title="Play a video from this computer with the source and translated subtitles. The video is not uploaded."
+          >
+            Preview Video
+            <input type="file" accept="video/*" className="hidden" onChange={handleVideoChange} />
+          </label>
+        )}
+        <span className="text-xs text-slate-500 ml-auto">
+          <span className="text-green-400">{approvedCount} approved</span> · <span className="text-amber-400">{flaggedCount} flagged</span> · {cues.length} cues
+        </span>
+      </div>
+
+      {videoFile && (
+        <div className="mb-2">
+          <VideoPreview file={videoFile} tracks={previewTracks} videoRef={videoRef} onTimeUpdate={handleTimeUpdate} />
+        </div>
+      )}
+
+      <div
+        ref={listRef}
+        tabIndex={0}
+        onKeyDown={handleListKeyDown}
+        className="max-h-[28rem] overflow-y-auto rounded-md bg-slate-900/30 focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
+        aria-label="Cues. Use the arrow keys to move, Enter to edit, A to approve and F to flag."
+      >
+        {visibleIndexes.length === 0 ? (
+          <p className="p-3 text-sm text-slate-500">No cues match.</p>
+        ) : (
+          visibleIndexes.map(index => (
+            <CueRow
+              key={index}
+              index={index}
+              sourceCue={sourceCues[index]}
+              cue={cues[index]}
+              review={reviews[index]}
+              glossaryIssues={issuesByCue.get(index) ?? []}
+              markupIssues={markupIssuesByCue.get(index) ?? []}
+              readabilityIssue={readabilityByCue.get(index)}
+              isActive={index === activeIndex}
+              isPlaying={index === playingIndex}
+              rowRef={(element) => {
+                if (element) rowRefs.current.set(index, element);
+                else rowRefs.current.delete(index);
+              }}
+              textareaRef={(element) => {
+                if (element) textareaRefs.current.set(index, element);
+                else textareaRefs.current.delete(index);
+              }}
+              onActivate={() => setActiveIndex(index)}
+              onSeek={() => seekTo(index)}
+              onCommit={(text) => onEditCue(job.id, track.language, index, text)}
+              onRebalance={() => onEditCue(job.id, track.language, index, rebalanceLines(cues[index].text, maxCharsPerLine))}
+              onToggleReview={(status) => toggleReview(index, status)}
+              onTextareaKeyDown={handleTextareaKeyDown}
+            />
+          ))
+        )}
+      </div>
+      <p className="mt-1 text-[11px] text-slate-500">
+        ↑/↓ move · Enter edit · A approve · F flag · Alt+↑/↓ next cue while editing · Esc stop editing
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { DualSubtitleOptions, DualSubtitleOrder, SecondaryLineStyle } from '../utils/dualSubtitleUtils';
+
+interface DualSubtitleSettingsProps {
+  value: DualSubtitleOptions;
+  onChange: (options: DualSubtitleOptions) => void;
+}
+
+const ORDER_OPTIONS: { value: DualSubtitleOrder; label: string }[] = [
+  { value: 'source-first', label: 'Source above translation' },
+  { value: 'translation-first', label: 'Translation above source' },
+];
+
+const STYLE_OPTIONS: { value: SecondaryLineStyle; label: string }[] = [
+  { value: 'none', label: 'Plain second line' },
+  { value: 'italic', label: 'Italic second line' },
+  { value: 'class', label: 'Styled second line (VTT STYLE block)' },
+];
+
+const selectClassName = "bg-slate-900/50 border border-slate-600 rounded-md text-xs text-slate-300 px-1.5 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50";
+
+export const DualSubtitleSettings: React.FC<DualSubtitleSettingsProps> = ({ value, onChange }) => {
+  const update = (updates: Partial<DualSubtitleOptions>) => onChange({ ...value, ...updates });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-1 text-xs text-slate-400">
+      <label className="inline-flex items-center gap-1.5 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="accent-cyan-500"
+        />
+        Bilingual download
+      </label>
+      <select
+        value={value.order}
+        onChange={(e) => update({ order: e.target.value as DualSubtitleOrder })}
+        disabled={!value.enabled}
+        aria-label="Line order"
+        className={selectClassName}
+      >
+        {ORDER_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <select
+        value={value.secondaryStyle}
+        onChange={(e) => update({ secondaryStyle: e.target.value as SecondaryLineStyle })}
+        disabled={!value.enabled}
+        aria-label="Second line style"
+        className={selectClassName}
+      >
+        {STYLE_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      {value.enabled && (
+        <span className="text-slate-500">Applies to VTT and SRT downloads; SRT uses italics for styled lines.</span>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,15 @@
 import React, { useCallback, useState } from 'react';
-import { TranslationJob } from '../App';
+import { TranslationJob, TranslationTrack } from '../App';
 import { UploadIcon } from './icons/UploadIcon';
-import { DelaySlider } from './DelaySlider';
+import { RateLimitSettingsPanel } from './RateLimitSettingsPanel';
 import { XCircleIcon } from './icons/XCircleIcon';
-import { GlossaryInput } from './GlossaryInput';
+import { TranslationModeSelector } from './TranslationModeSelector';
+import { LanguageSelector } from './LanguageSelector';
+import { TranslationMode } from '../services/translationService';
+import { RateLimitSettings } from '../services/rateLimiter';
+import { SUPPORTED_EXTENSIONS } from '../utils/subtitleFormats';
+import { LanguageSelection } from '../utils/languages';
+import { countTracks } from '../utils/jobUtils';
 import clsx from 'clsx';
 
 interface FileUploadAreaProps {
@@ -13,22 +19,27 @@ interface FileUploadAreaProps {
   onClearQueue: () => void;
   onStopQueue: () => void;
   isProcessing: boolean;
-  isApiKeySet: boolean;
-  fileDelay: number;
-  onFileDelayChange: (delay: number) => void;
-  chunkDelay: number;
-  onChunkDelayChange: (delay: number) => void;
-  glossary: string;
-  onGlossaryChange: (value: string) => void;
+  isProviderReady: boolean;
+  rateLimits: RateLimitSettings;
+  onRateLimitsChange: (settings: RateLimitSettings) => void;
+  translationMode: TranslationMode;
+  onTranslationModeChange: (mode: TranslationMode) => void;
+  selfReview: boolean;
+  onSelfReviewChange: (enabled: boolean) => void;
+  useMemory: boolean;
+  onUseMemoryChange: (enabled: boolean) => void;
+  languages: LanguageSelection;
+  onLanguagesChange: (languages: LanguageSelection) => void;
 }
 
-const JobStatus: React.FC<{ job: TranslationJob }> = ({ job }) => {
-    const { status, progress } = job;
+const TrackStatus: React.FC<{ track: TranslationTrack }> = ({ track }) => {
+    const { status, progress } = track;
 
     const getStatusColor = () => {
         switch(status) {
             case 'queued': return 'text-slate-400';
             case 'processing': return 'text-cyan-400';
+            case 'paused': return 'text-amber-400';
             case 'completed': return 'text-green-400';
             case 'error': return 'text-red-400';
             default: return 'text-slate-400';
@@ -36,8 +47,8 @@ const JobStatus: React.FC<{ job: TranslationJob }> = ({ job }) => {
     }
     
     const getStatusText = () => {
-        if (status === 'processing' && progress) {
-            return `${progress.current} / ${progress.total} chunks`;
+        if ((status === 'processing' || status === 'paused') && progress) {
+            return `${status === 'paused' ? 'paused ' : ''}${progress.current} / ${progress.total} chunks`;
         }
         return status;
     }
@@ -48,6 +59,7 @@ const JobStatus: React.FC<{ job: TranslationJob }> = ({ job }) => {
             getStatusColor(),
             status === 'processing' && 'animate-pulse'
         )}>
+            <span className="font-mono normal-case text-slate-500 mr-1">{track.language}</span>
             {getStatusText()}
         </span>
     );
@@ -56,10 +68,12 @@ const JobStatus: React.FC<{ job: TranslationJob }> = ({ job }) => {
 
 export const FileUploadArea: React.FC<FileUploadAreaProps> = ({ 
     jobs, onFilesSelected, onProcessQueue, onClearQueue, onStopQueue, isProcessing, 
-    isApiKeySet, fileDelay, onFileDelayChange, chunkDelay, onChunkDelayChange,
-    glossary, onGlossaryChange
+    isProviderReady, rateLimits, onRateLimitsChange,
+    translationMode, onTranslationModeChange, selfReview, onSelfReviewChange,
+    useMemory, onUseMemoryChange, languages, onLanguagesChange
 }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const pendingCount = countTracks(jobs, 'queued') + countTracks(jobs, 'paused');
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
@@ -97,9 +111,9 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
             {jobs.length === 0 ? (
                  <label htmlFor="file-upload" className="flex flex-col items-center justify-center w-full h-full border-2 border-dashed border-slate-600 hover:border-cyan-500 rounded-lg cursor-pointer transition-colors">
                     <UploadIcon className="w-12 h-12 text-slate-500 mb-4" />
-                    <p className="text-lg text-slate-400">Drag & Drop .vtt files here</p>
+                    <p className="text-lg text-slate-400">Drag & Drop {SUPPORTED_EXTENSIONS.join(', ')} files here</p>
                     <p className="text-sm text-slate-500">or click to select</p>
-                    <input id="file-upload" type="file" multiple accept=".vtt" className="hidden" onChange={handleFileChange} disabled={isProcessing} />
+                    <input id="file-upload" type="file" multiple accept={SUPPORTED_EXTENSIONS.join(',')} className="hidden" onChange={handleFileChange} disabled={isProcessing} />
                 </label>
             ) : (
                 <div className="h-full max-h-[350px] overflow-y-auto pr-2">
@@ -107,7 +121,11 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
                         {jobs.map(job => (
                             <li key={job.id} className="p-2 bg-slate-700/50 rounded-md text-sm flex justify-between items-center">
                                 <span className="font-mono truncate mr-4">{job.file.name}</span>
-                                <JobStatus job={job} />
+                                <div className="flex flex-wrap justify-end gap-x-3 flex-shrink-0">
+                                    {job.tracks.map(track => (
+                                        <TrackStatus key={track.language} track={track} />
+                                    ))}
+                                </div>
                             </li>
                         ))}
                     </ul>
@@ -117,29 +135,51 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
               
         <div className="p-4 bg-slate-700/50 border-t border-slate-600">
             <div className="mb-4 space-y-4">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4">
-                    <DelaySlider
-                        id="chunk-delay-slider"
-                        label="Delay Between Chunks"
-                        description="Delay between requests for a single file. Helps avoid rapid-fire API calls."
-                        value={chunkDelay}
-                        onChange={onChunkDelayChange}
-                        disabled={isProcessing}
-                    />
-                    <DelaySlider
-                        id="file-delay-slider"
-                        label="Delay Between Files"
-                        description="Increase if you encounter quota errors. A few seconds is a safe start."
-                        value={fileDelay}
-                        onChange={onFileDelayChange}
-                        disabled={isProcessing}
-                    />
-                </div>
-                <GlossaryInput
-                    value={glossary}
-                    onChange={onGlossaryChange}
+                <LanguageSelector
+                    value={languages}
+                    onChange={onLanguagesChange}
+                    disabled={isProcessing}
+                />
+                <RateLimitSettingsPanel
+                    value={rateLimits}
+                    onChange={onRateLimitsChange}
+                    disabled={isProcessing}
+                />
+                <TranslationModeSelector
+                    value={translationMode}
+                    onChange={onTranslationModeChange}
                     disabled={isProcessing}
                 />
+                <div>
+                    <label className="inline-flex items-center gap-2 text-sm font-medium text-slate-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={selfReview}
+                            onChange={(e) => onSelfReviewChange(e.target.checked)}
+                            disabled={isProcessing}
+                            className="accent-cyan-500"
+                        />
+                        Self-Review
+                    </label>
+                    <p className="text-xs text-slate-500 mt-1">
+                        Sends each translated chunk back for a critique. Proposed corrections are shown as a diff to accept or dismiss; this roughly doubles the requests.
+                    </p>
+                </div>
+                <div>
+                    <label className="inline-flex items-center gap-2 text-sm font-medium text-slate-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={useMemory}
+                            onChange={(e) => onUseMemoryChange(e.target.checked)}
+                            disabled={isProcessing}
+                            className="accent-cyan-500"
+                        />
+                        Use Translation Memory
+                    </label>
+                    <p className="text-xs text-slate-500 mt-1">
+                        Fills in cues translated before instead of sending them. Turn off to translate every cue again, e.g. after changing the glossary or model.
+                    </p>
+                </div>
             </div>
             <div className="flex space-x-4">
                  {isProcessing ? (
@@ -148,17 +188,17 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
                         className="w-full inline-flex items-center justify-center px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-red-500 transition-colors"
                         >
                         <XCircleIcon className="mr-3 h-5 w-5 text-white" />
-                        Stop Processing
+                        Pause
                     </button>
                 ) : (
                     <>
                         <button
                             onClick={onProcessQueue}
-                            disabled={jobs.filter(j => j.status === 'queued').length === 0 || !isApiKeySet}
-                            title={!isApiKeySet ? 'Please set your API key first' : 'Translate all queued files'}
+                            disabled={pendingCount === 0 || !isProviderReady}
+                            title={!isProviderReady ? 'Please configure the translation provider first' : 'Translate all queued files and resume paused ones'}
                             className="w-full inline-flex items-center justify-center px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-cyan-600 hover:bg-cyan-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-cyan-500 disabled:bg-slate-500 disabled:cursor-not-allowed transition-colors"
                         >
-                            {`Translate Queued (${jobs.filter(j => j.status === 'queued').length})`}
+                            {`${countTracks(jobs, 'paused') > 0 ? 'Resume' : 'Translate Queued'} (${pendingCount})`}
                         </button>
                         <button
                             onClick={onClearQueue}
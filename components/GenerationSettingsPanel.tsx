@@ -0,0 +1,76 @@
+import React from 'react';
+import { GenerationConfig } from '../services/providers/types';
+import { NumberField } from './NumberField';
+
+interface GenerationSettingsPanelProps {
+  value: GenerationConfig;
+  onChange: (config: GenerationConfig) => void;
+  /** Whether the selected provider understands a thinking budget. */
+  supportsThinking: boolean;
+  /** The smallest budget the selected model accepts apart from -1; above 0 when thinking cannot be turned off. */
+  minThinkingBudget: number;
+  disabled: boolean;
+}
+
+export const GenerationSettingsPanel: React.FC<GenerationSettingsPanelProps> = ({ value, onChange, supportsThinking, minThinkingBudget, disabled }) => {
+  const update = (updates: Partial<GenerationConfig>) => onChange({ ...value, ...updates });
+  const isBelowMinThinkingBudget = value.thinkingBudget !== undefined && value.thinkingBudget >= 0 && value.thinkingBudget < minThinkingBudget;
+
+  const getThinkingBudgetDescription = (): string => {
+    if (minThinkingBudget === 0) return "0 turns thinking off, -1 lets the model decide.";
+    if (isBelowMinThinkingBudget) return `This model cannot turn thinking off; ${minThinkingBudget} is used instead.`;
+    return `This model cannot turn thinking off: at least ${minThinkingBudget}, or -1 to let the model decide.`;
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-4 border border-slate-700 animate-fade-in">
+      <span className="block text-sm font-medium text-slate-300 mb-3">Generation Settings</span>
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
+        <NumberField
+          id="generation-temperature"
+          label="Temperature"
+          description="Lower is more literal and consistent."
+          value={value.temperature}
+          onChange={(temperature) => update({ temperature })}
+          min={0}
+          max={2}
+          step={0.1}
+          disabled={disabled}
+        />
+        <NumberField
+          id="generation-top-p"
+          label="Top-P"
+          description="Nucleus sampling threshold."
+          value={value.topP}
+          onChange={(topP) => update({ topP })}
+          min={0}
+          max={1}
+          step={0.05}
+          disabled={disabled}
+        />
+        <NumberField
+          id="generation-max-output-tokens"
+          label="Max Output Tokens"
+          description="Chunks are sized to fit. A cut-off VTT reply re-requests the missing cues; a cut-off JSON reply is invalid and retried whole."
+          value={value.maxOutputTokens}
+          onChange={(maxOutputTokens) => update({ maxOutputTokens })}
+          min={1}
+          step={256}
+          disabled={disabled}
+        />
+        {supportsThinking && (
+          <NumberField
+            id="generation-thinking-budget"
+            label="Thinking Budget"
+            description={getThinkingBudgetDescription()}
+            value={value.thinkingBudget}
+            onChange={(thinkingBudget) => update({ thinkingBudget })}
+            min={-1}
+            step={128}
+            disabled={disabled}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,227 @@
+import React from 'react';
+import clsx from 'clsx';
+import { DownloadIcon } from './icons/DownloadIcon';
+import { UploadIcon } from './icons/UploadIcon';
+import { XIcon } from './icons/XIcon';
+import {
+  Glossary, GlossaryEntry, createGlossary, createGlossaryEntry, mergeGlossaryEntries, parseGlossaryCsv,
+  parseGlossaryText, parseGlossaryTbx, serializeGlossaryCsv, serializeGlossaryTbx,
+} from '../utils/glossaryUtils';
+import { LanguagePair, LanguageSelection } from '../utils/languages';
+import { downloadFile, readFileAsText } from '../utils/fileUtils';
+
+interface GlossaryManagerProps {
+  glossaries: Glossary[];
+  /** The glossary used for translating, or an empty string for none. */
+  activeGlossaryId: string;
+  onGlossariesChange: (glossaries: Glossary[]) => void;
+  onActiveGlossaryChange: (id: string) => void;
+  /** Decides the term and translation languages of TBX files. */
+  languages: LanguageSelection;
+  onNotify: (notification: { type: 'error' | 'success'; message: string }) => void;
+  /** Starts the pre-pass that proposes terms found in the queued files. */
+  onExtract: () => void;
+  /** Whether there are queued files and a configured provider to extract terms with. */
+  canExtract: boolean;
+  isExtracting: boolean;
+  disabled: boolean;
+}
+
+const inputClassName = "bg-slate-900/70 border border-slate-600 rounded-md shadow-sm px-2 py-1 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed";
+const buttonClassName = "inline-flex items-center px-3 py-1.5 text-xs font-medium rounded-md text-slate-300 bg-slate-700 hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-cyan-500 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed";
+
+const parseGlossaryFile = (fileName: string, content: string, languages: LanguagePair): GlossaryEntry[] => {
+  const extension = fileName.slice(fileName.lastIndexOf('.')).toLowerCase();
+  if (extension === '.csv') return parseGlossaryCsv(content);
+  if (extension === '.tbx' || extension === '.xml') return parseGlossaryTbx(content, languages);
+  return parseGlossaryText(content);
+};
+
+export const GlossaryManager: React.FC<GlossaryManagerProps> = ({
+  glossaries, activeGlossaryId, onGlossariesChange, onActiveGlossaryChange, languages, onNotify,
+  onExtract, canExtract, isExtracting, disabled
+}) => {
+  const activeGlossary = glossaries.find(glossary => glossary.id === activeGlossaryId);
+  // TBX files hold one language pair; the first target language is used.
+  const tbxLanguages: LanguagePair = { source: languages.source, target: languages.targets[0] };
+
+  const updateGlossary = (updated: Glossary) => {
+    onGlossariesChange(glossaries.map(glossary => (glossary.id === updated.id ? updated : glossary)));
+  };
+
+  const updateEntry = (index: number, updates: Partial<GlossaryEntry>) => {
+    if (!activeGlossary) return;
+    updateGlossary({
+      ...activeGlossary,
+      entries: activeGlossary.entries.map((entry, entryIndex) => (entryIndex === index ? { ...entry, ...updates } : entry)),
+    });
+  };
+
+  const handleCreate = () => {
+    const glossary = createGlossary(`Glossary ${glossaries.length + 1}`);
+    onGlossariesChange([...glossaries, glossary]);
+    onActiveGlossaryChange(glossary.id);
+  };
+
+  const handleDelete = () => {
+    if (!activeGlossary) return;
+    const remaining = glossaries.filter(glossary => glossary.id !== activeGlossary.id);
+    onGlossariesChange(remaining);
+    onActiveGlossaryChange(remaining[0]?.id ?? '');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseGlossaryFile(file.name, await readFileAsText(file), tbxLanguages);
+      if (imported.length === 0) {
+        onNotify({ type: 'error', message: `No glossary terms found in ${file.name}.` });
+        return;
+      }
+      if (activeGlossary) {
+        updateGlossary({ ...activeGlossary, entries: mergeGlossaryEntries(activeGlossary.entries, imported) });
+      } else {
+        const glossary = createGlossary(file.name.replace(/\.[^.]+$/, ''), imported);
+        onGlossariesChange([...glossaries, glossary]);
+        onActiveGlossaryChange(glossary.id);
+      }
+      onNotify({ type: 'success', message: `Imported ${imported.length} term(s) from ${file.name}.` });
+    } catch (error) {
+      onNotify({ type: 'error', message: error instanceof Error ? error.message : `Could not import ${file.name}.` });
+    }
+  };
+
+  const handleExport = (format: 'csv' | 'tbx') => {
+    if (!activeGlossary) return;
+    if (format === 'csv') {
+      downloadFile(serializeGlossaryCsv(activeGlossary.entries), `${activeGlossary.name}.csv`, 'text/csv;charset=utf-8;');
+    } else {
+      downloadFile(serializeGlossaryTbx(activeGlossary, tbxLanguages), `${activeGlossary.name}.tbx`, 'application/x-tbx+xml;charset=utf-8;');
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-4 border border-slate-700 animate-fade-in">
+      <div className="flex flex-wrap items-center gap-3 mb-1">
+        <label htmlFor="glossary-select" className="text-sm font-medium text-slate-300">
+          Glossary
+        </label>
+        <select
+          id="glossary-select"
+          value={activeGlossary?.id ?? ''}
+          onChange={(e) => onActiveGlossaryChange(e.target.value)}
+          disabled={disabled}
+          className={inputClassName}
+        >
+          <option value="">None</option>
+          {glossaries.map(glossary => (
+            <option key={glossary.id} value={glossary.id}>{glossary.name}</option>
+          ))}
+        </select>
+        {activeGlossary && (
+          <input
+            type="text"
+            value={activeGlossary.name}
+            onChange={(e) => updateGlossary({ ...activeGlossary, name: e.target.value })}
+            disabled={disabled}
+            aria-label="Glossary name"
+            className={clsx(inputClassName, "w-40")}
+          />
+        )}
+        <button onClick={handleCreate} disabled={disabled} className={buttonClassName}>New</button>
+        {activeGlossary && (
+          <button onClick={handleDelete} disabled={disabled} className={buttonClassName}>Delete</button>
+        )}
+        <button
+          onClick={onExtract}
+          disabled={disabled || !canExtract || isExtracting}
+          className={buttonClassName}
+          title="Ask the model for recurring names and terms in the queued files"
+        >
+          {isExtracting ? 'Extracting...' : 'Extract from Queue'}
+        </button>
+        <div className="flex items-center gap-2 ml-auto">
+          <label className={clsx(buttonClassName, disabled && "opacity-50 pointer-events-none")}>
+            <UploadIcon className="w-4 h-4 mr-1.5" />
+            Import
+            <input type="file" accept=".csv,.tbx,.xml,.txt" className="hidden" onChange={handleImport} disabled={disabled} />
+          </label>
+          <button onClick={() => handleExport('csv')} disabled={!activeGlossary} className={buttonClassName}>
+            <DownloadIcon className="w-4 h-4 mr-1.5" />
+            CSV
+          </button>
+          <button onClick={() => handleExport('tbx')} disabled={!activeGlossary} className={buttonClassName}>
+            <DownloadIcon className="w-4 h-4 mr-1.5" />
+            TBX
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-slate-500 mb-3">
+        Terms are sent with every request, and each translated chunk is checked for them.
+        Import CSV, TBX, or text with one <code className="bg-slate-900/50 px-1 py-0.5 rounded">Term: Dịch</code> per line.
+      </p>
+
+      {activeGlossary && (
+        <>
+          {activeGlossary.entries.length > 0 && (
+            <div className="max-h-72 overflow-y-auto pr-2">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-slate-400 text-left">
+                    <th className="font-medium pb-1 pr-2">Term</th>
+                    <th className="font-medium pb-1 pr-2">Translation</th>
+                    <th className="font-medium pb-1 px-2 text-center" title="Match the term only with the same capitalization">Aa</th>
+                    <th className="font-medium pb-1 px-2 text-center" title="Match the term only as a whole word">Word</th>
+                    <th className="font-medium pb-1 pr-2">Note</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {activeGlossary.entries.map((entry, index) => (
+                    <tr key={index}>
+                      <td className="py-1 pr-2">
+                        <input type="text" value={entry.term} onChange={(e) => updateEntry(index, { term: e.target.value })} disabled={disabled} aria-label="Term" className={clsx(inputClassName, "w-full")} />
+                      </td>
+                      <td className="py-1 pr-2">
+                        <input type="text" value={entry.translation} onChange={(e) => updateEntry(index, { translation: e.target.value })} disabled={disabled} aria-label="Translation" className={clsx(inputClassName, "w-full")} />
+                      </td>
+                      <td className="py-1 px-2 text-center">
+                        <input type="checkbox" checked={entry.caseSensitive} onChange={(e) => updateEntry(index, { caseSensitive: e.target.checked })} disabled={disabled} aria-label="Case-sensitive" className="accent-cyan-500" />
+                      </td>
+                      <td className="py-1 px-2 text-center">
+                        <input type="checkbox" checked={entry.wholeWord} onChange={(e) => updateEntry(index, { wholeWord: e.target.checked })} disabled={disabled} aria-label="Whole word" className="accent-cyan-500" />
+                      </td>
+                      <td className="py-1 pr-2">
+                        <input type="text" value={entry.note ?? ''} onChange={(e) => updateEntry(index, { note: e.target.value || undefined })} disabled={disabled} aria-label="Note" placeholder="Optional" className={clsx(inputClassName, "w-full")} />
+                      </td>
+                      <td className="py-1">
+                        <button
+                          onClick={() => updateGlossary({ ...activeGlossary, entries: activeGlossary.entries.filter((_, entryIndex) => entryIndex !== index) })}
+                          disabled={disabled}
+                          className="p-1 rounded-full text-slate-400 hover:bg-slate-600 hover:text-red-400 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors disabled:opacity-50"
+                          aria-label="Remove term"
+                          title="Remove term"
+                        >
+                          <XIcon className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <button
+            onClick={() => updateGlossary({ ...activeGlossary, entries: [...activeGlossary.entries, createGlossaryEntry()] })}
+            disabled={disabled}
+            className={clsx(buttonClassName, "mt-2")}
+          >
+            Add Term
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
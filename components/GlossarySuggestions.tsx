@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import clsx from 'clsx';
+import { GlossaryEntry } from '../utils/glossaryUtils';
+
+interface GlossarySuggestionsProps {
+  /** Terms proposed by the glossary pre-pass. */
+  suggestions: GlossaryEntry[];
+  onChange: (suggestions: GlossaryEntry[]) => void;
+  /** Adds the checked terms to the glossary. */
+  onAccept: (entries: GlossaryEntry[]) => void;
+  onDiscard: () => void;
+}
+
+const inputClassName = "w-full bg-slate-900/70 border border-slate-600 rounded-md shadow-sm px-2 py-1 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+const buttonClassName = "px-3 py-1.5 text-xs font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-cyan-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+export const GlossarySuggestions: React.FC<GlossarySuggestionsProps> = ({ suggestions, onChange, onAccept, onDiscard }) => {
+  // Every proposed term starts checked; unchecking leaves it out of the glossary.
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+
+  const update = (index: number, updates: Partial<GlossaryEntry>) => {
+    onChange(suggestions.map((entry, entryIndex) => (entryIndex === index ? { ...entry, ...updates } : entry)));
+  };
+
+  const toggle = (index: number) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const selected = suggestions.filter((entry, index) => !excluded.has(index) && entry.term.trim() && entry.translation.trim());
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-4 border border-cyan-700/60 animate-fade-in">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <span className="block text-sm font-medium text-slate-300">Proposed Glossary Terms</span>
+          <span className="text-xs text-slate-500">Found in the queued files. Check the translations before adding them.</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={onDiscard} className={clsx(buttonClassName, "text-slate-300 bg-slate-700 hover:bg-slate-600")}>
+            Discard
+          </button>
+          <button
+            onClick={() => onAccept(selected)}
+            disabled={selected.length === 0}
+            className={clsx(buttonClassName, "text-white bg-cyan-600 hover:bg-cyan-700")}
+          >
+            {`Add ${selected.length} to Glossary`}
+          </button>
+        </div>
+      </div>
+
+      {suggestions.length === 0 ? (
+        <p className="text-sm text-slate-500">No new terms were found.</p>
+      ) : (
+        <div className="max-h-72 overflow-y-auto pr-2">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-slate-400 text-left">
+                <th className="pb-1 pr-2 w-8" />
+                <th className="font-medium pb-1 pr-2">Term</th>
+                <th className="font-medium pb-1 pr-2">Translation</th>
+                <th className="font-medium pb-1 px-2 text-center" title="Match the term only with the same capitalization">Aa</th>
+                <th className="font-medium pb-1">Note</th>
+              </tr>
+            </thead>
+            <tbody>
+              {suggestions.map((entry, index) => (
+                <tr key={index} className={clsx(excluded.has(index) && "opacity-50")}>
+                  <td className="py-1 pr-2">
+                    <input type="checkbox" checked={!excluded.has(index)} onChange={() => toggle(index)} aria-label={`Add "${entry.term}"`} className="accent-cyan-500" />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input type="text" value={entry.term} onChange={(e) => update(index, { term: e.target.value })} aria-label="Term" className={inputClassName} />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input type="text" value={entry.translation} onChange={(e) => update(index, { translation: e.target.value })} aria-label="Translation" className={inputClassName} />
+                  </td>
+                  <td className="py-1 px-2 text-center">
+                    <input type="checkbox" checked={entry.caseSensitive} onChange={(e) => update(index, { caseSensitive: e.target.checked })} aria-label="Case-sensitive" className="accent-cyan-500" />
+                  </td>
+                  <td className="py-1">
+                    <input type="text" value={entry.note ?? ''} onChange={(e) => update(index, { note: e.target.value || undefined })} aria-label="Note" className={inputClassName} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 
 import React, { useCallback, useState } from 'react';
-import { TranslationJob } from '../App';
+import { TranslationJob, TranslationStatus } from '../App';
+import { getJobStatus } from '../utils/jobUtils';
 import { UploadIcon } from './icons/UploadIcon';
 import clsx from 'clsx';
 
@@ -12,7 +13,7 @@ interface FileUploadAreaProps {
   isProcessing: boolean;
 }
 
-const getStatusColor = (status: TranslationJob['status']) => {
+const getStatusColor = (status: TranslationStatus) => {
     switch(status) {
         case 'queued': return 'text-slate-400';
         case 'processing': return 'text-cyan-400 animate-pulse';
@@ -72,8 +73,8 @@ export const FileUploadArea: React.FC<FileUploadAreaProps> = ({
                         {jobs.map(job => (
                             <li key={job.id} className="p-2 bg-slate-700/50 rounded-md text-sm flex justify-between items-center">
                                 <span className="font-mono truncate mr-4">{job.file.name}</span>
-                                <span className={clsx("font-semibold capitalize", getStatusColor(job.status))}>
-                                    {job.status}
+                                <span className={clsx("font-semibold capitalize", getStatusColor(getJobStatus(job)))}>
+                                    {getJobStatus(job)}
                                 </span>
                             </li>
                         ))}
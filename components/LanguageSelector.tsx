@@ -0,0 +1,78 @@
+import React from 'react';
+import clsx from 'clsx';
+import { LANGUAGES, LanguageSelection } from '../utils/languages';
+
+interface LanguageSelectorProps {
+  value: LanguageSelection;
+  onChange: (languages: LanguageSelection) => void;
+  disabled: boolean;
+}
+
+const selectClassName = "w-full bg-slate-900/70 border border-slate-600 rounded-md shadow-sm px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed";
+
+export const LanguageSelector: React.FC<LanguageSelectorProps> = ({ value, onChange, disabled }) => {
+  const handleSourceChange = (source: string) => {
+    const targets = value.targets.filter(target => target !== source);
+    // Picking a selected target as the source swaps the two instead of leaving no target at all.
+    onChange({ source, targets: targets.length > 0 ? targets : [value.source] });
+  };
+
+  const handleTargetToggle = (code: string) => {
+    if (value.targets.includes(code)) {
+      // At least one target has to stay selected.
+      if (value.targets.length > 1) {
+        onChange({ ...value, targets: value.targets.filter(target => target !== code) });
+      }
+    } else {
+      onChange({ ...value, targets: [...value.targets, code] });
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-x-6 gap-y-4">
+      <div>
+        <label htmlFor="source-language-select" className="block text-sm font-medium text-slate-300 mb-2">
+          Source Language
+        </label>
+        <select
+          id="source-language-select"
+          value={value.source}
+          onChange={(e) => handleSourceChange(e.target.value)}
+          disabled={disabled}
+          className={selectClassName}
+        >
+          {LANGUAGES.map(language => (
+            <option key={language.code} value={language.code}>{language.name} ({language.code})</option>
+          ))}
+        </select>
+      </div>
+      <div className="md:col-span-2">
+        <span className="block text-sm font-medium text-slate-300 mb-2">Target Languages</span>
+        <div className="flex flex-wrap gap-1.5" role="group" aria-label="Target languages">
+          {LANGUAGES.filter(language => language.code !== value.source).map(language => {
+            const isSelected = value.targets.includes(language.code);
+            return (
+              <button
+                key={language.code}
+                type="button"
+                onClick={() => handleTargetToggle(language.code)}
+                disabled={disabled}
+                aria-pressed={isSelected}
+                title={language.name}
+                className={clsx(
+                  "px-2.5 py-1 text-xs font-medium rounded-md border border-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors",
+                  isSelected ? 'bg-cyan-600 text-white' : 'bg-slate-900/50 text-slate-300 hover:bg-slate-600'
+                )}
+              >
+                {language.code}
+              </button>
+            );
+          })}
+        </div>
+        <p className="text-xs text-slate-500 mt-1">
+          Each file is translated into every selected language.
+        </p>
+      </div>
+    </div>
+  );
+};
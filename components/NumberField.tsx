@@ -0,0 +1,40 @@
+import React from 'react';
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  description: string;
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+  min: number;
+  max?: number;
+  step: number;
+  disabled: boolean;
+  placeholder?: string;
+}
+
+const inputClassName = "w-full bg-slate-900/70 border border-slate-600 rounded-md shadow-sm px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed";
+
+export const NumberField: React.FC<NumberFieldProps> = ({ id, label, description, value, onChange, min, max, step, disabled, placeholder = 'Default' }) => (
+  <div>
+    <label htmlFor={id} className="block text-sm font-medium text-slate-300 mb-2">
+      {label}
+    </label>
+    <input
+      id={id}
+      type="number"
+      value={value ?? ''}
+      // An empty field reports `undefined`, e.g. to fall back to a default.
+      onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+      min={min}
+      max={max}
+      step={step}
+      disabled={disabled}
+      placeholder={placeholder}
+      className={inputClassName}
+    />
+    <p className="text-xs text-slate-500 mt-1">
+      {description}
+    </p>
+  </div>
+);
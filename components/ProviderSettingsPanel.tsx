@@ -0,0 +1,115 @@
+import React from 'react';
+import { ProviderSettings, ProviderType } from '../services/providers/types';
+import { GEMINI_MODELS } from '../services/providers/geminiProvider';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  disabled: boolean;
+}
+
+const PROVIDER_OPTIONS: { value: ProviderType; label: string }[] = [
+  { value: 'gemini', label: 'Google Gemini' },
+  { value: 'openai-compatible', label: 'OpenAI-compatible server (vLLM, llama.cpp, ...)' },
+];
+
+const inputClassName = "w-full bg-slate-900/70 border border-slate-600 rounded-md shadow-sm px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed";
+
+export const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onChange, disabled }) => {
+  const update = (updates: Partial<ProviderSettings>) => onChange({ ...settings, ...updates });
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-4 border border-slate-700 animate-fade-in">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="provider-select" className="block text-sm font-medium text-slate-300 mb-2">
+            Translation Provider
+          </label>
+          <select
+            id="provider-select"
+            value={settings.type}
+            onChange={(e) => update({ type: e.target.value as ProviderType })}
+            disabled={disabled}
+            className={inputClassName}
+          >
+            {PROVIDER_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {settings.type === 'gemini' && (
+          <div>
+            <label htmlFor="provider-gemini-model" className="block text-sm font-medium text-slate-300 mb-2">
+              Model
+            </label>
+            <select
+              id="provider-gemini-model"
+              value={settings.geminiModel}
+              onChange={(e) => update({ geminiModel: e.target.value })}
+              disabled={disabled}
+              className={inputClassName}
+            >
+              {GEMINI_MODELS.map(model => (
+                <option key={model.value} value={model.value}>{model.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {settings.type === 'openai-compatible' && (
+          <div>
+            <label htmlFor="provider-base-url" className="block text-sm font-medium text-slate-300 mb-2">
+              Base URL
+            </label>
+            <input
+              id="provider-base-url"
+              type="url"
+              value={settings.baseUrl}
+              onChange={(e) => update({ baseUrl: e.target.value })}
+              disabled={disabled}
+              placeholder="http://192.168.1.20:8000/v1"
+              className={inputClassName}
+            />
+          </div>
+        )}
+      </div>
+
+      {settings.type === 'openai-compatible' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          <div>
+            <label htmlFor="provider-model" className="block text-sm font-medium text-slate-300 mb-2">
+              Model
+            </label>
+            <input
+              id="provider-model"
+              type="text"
+              value={settings.model}
+              onChange={(e) => update({ model: e.target.value })}
+              disabled={disabled}
+              placeholder="e.g. Qwen/Qwen2.5-7B-Instruct"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="provider-api-key" className="block text-sm font-medium text-slate-300 mb-2">
+              API Key (Optional)
+            </label>
+            <input
+              id="provider-api-key"
+              type="password"
+              value={settings.apiKey}
+              onChange={(e) => update({ apiKey: e.target.value })}
+              disabled={disabled}
+              placeholder="Only if your server requires one"
+              className={inputClassName}
+            />
+          </div>
+          <p className="md:col-span-2 text-xs text-slate-500">
+            Requests go directly from your browser to this server, which must allow cross-origin requests from this page.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
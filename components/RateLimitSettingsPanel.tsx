@@ -0,0 +1,53 @@
+import React from 'react';
+import { RateLimitSettings } from '../services/rateLimiter';
+import { NumberField } from './NumberField';
+
+interface RateLimitSettingsPanelProps {
+  value: RateLimitSettings;
+  onChange: (settings: RateLimitSettings) => void;
+  disabled: boolean;
+}
+
+export const RateLimitSettingsPanel: React.FC<RateLimitSettingsPanelProps> = ({ value, onChange, disabled }) => {
+  // These limits are required, so clearing a field keeps the previous value.
+  const update = (key: keyof RateLimitSettings, newValue: number | undefined) => {
+    if (newValue !== undefined && newValue >= 1) {
+      onChange({ ...value, [key]: Math.floor(newValue) });
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-x-6 gap-y-4">
+      <NumberField
+        id="rate-limit-rpm"
+        label="Requests / Minute"
+        description="Your quota's RPM limit."
+        value={value.requestsPerMinute}
+        onChange={(requestsPerMinute) => update('requestsPerMinute', requestsPerMinute)}
+        min={1}
+        step={1}
+        disabled={disabled}
+      />
+      <NumberField
+        id="rate-limit-tpm"
+        label="Tokens / Minute"
+        description="Your quota's TPM limit, input and output combined."
+        value={value.tokensPerMinute}
+        onChange={(tokensPerMinute) => update('tokensPerMinute', tokensPerMinute)}
+        min={1}
+        step={1000}
+        disabled={disabled}
+      />
+      <NumberField
+        id="rate-limit-concurrency"
+        label="Parallel Translations"
+        description="Files or languages translated at once."
+        value={value.concurrency}
+        onChange={(concurrency) => update('concurrency', concurrency)}
+        min={1}
+        step={1}
+        disabled={disabled}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { ReadabilityLimits } from '../utils/readabilityUtils';
+import { NumberField } from './NumberField';
+
+interface ReadabilitySettingsPanelProps {
+  value: ReadabilityLimits;
+  onChange: (limits: ReadabilityLimits) => void;
+}
+
+export const ReadabilitySettingsPanel: React.FC<ReadabilitySettingsPanelProps> = ({ value, onChange }) => {
+  // Both limits are required, so clearing a field keeps the previous value.
+  const update = (key: keyof ReadabilityLimits, newValue: number | undefined) => {
+    if (newValue !== undefined && newValue >= 1) {
+      onChange({ ...value, [key]: newValue });
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-4 border border-slate-700 animate-fade-in">
+      <span className="block text-sm font-medium text-slate-300 mb-3">Readability Limits</span>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <NumberField
+          id="readability-cps"
+          label="Characters / Second"
+          description="Cues that must be read faster are flagged."
+          value={value.maxCharsPerSecond}
+          onChange={(maxCharsPerSecond) => update('maxCharsPerSecond', maxCharsPerSecond)}
+          min={1}
+          step={0.5}
+          disabled={false}
+        />
+        <NumberField
+          id="readability-cpl"
+          label="Characters / Line"
+          description="Longer lines are flagged and can be re-broken at word boundaries."
+          value={value.maxCharsPerLine}
+          onChange={(maxCharsPerLine) => update('maxCharsPerLine', maxCharsPerLine && Math.floor(maxCharsPerLine))}
+          min={1}
+          step={1}
+          disabled={false}
+        />
+      </div>
+    </div>
+  );
+};
@@ -1,24 +1,80 @@
 
 import React, { useState, useMemo } from 'react';
-import { TranslationJob } from '../App';
+import { CueReviewStatus, TranslationJob, TranslationTrack } from '../App';
 import { ClipboardIcon } from './icons/ClipboardIcon';
 import { CheckIcon } from './icons/CheckIcon';
 import { ChevronDownIcon } from './icons/ChevronDownIcon';
 import { DownloadIcon } from './icons/DownloadIcon';
 import { RefreshIcon } from './icons/RefreshIcon';
-import { downloadFile } from '../utils/fileUtils';
+import { CueReviewEditor } from './CueReviewEditor';
+import { ReviewSuggestions } from './ReviewSuggestions';
+import { downloadFile, readFileAsText } from '../utils/fileUtils';
+import { getLanguageName } from '../utils/languages';
+import { getJobStatus } from '../utils/jobUtils';
+import { SubtitleFormat, SUBTITLE_FORMAT_LABELS, exportSubtitle, getExportFormats, getOutputFileName, getSubtitleMimeType, parseSubtitle, removeFormatPlaceholders } from '../utils/subtitleFormats';
+import { DualSubtitleOptions, createDualSrt, createDualVtt, supportsDualSubtitles } from '../utils/dualSubtitleUtils';
+import { getCues, parseVtt, serializeVtt } from '../utils/vttUtils';
+import { ReadabilityLimits, findReadabilityIssues } from '../utils/readabilityUtils';
+import { RunSettings } from '../services/providers/types';
 import clsx from 'clsx';
 
 interface ResultItemProps {
   job: TranslationJob;
-  onRetryJob: (id: number) => void;
+  onRetryTrack: (id: number, language: string) => void;
+  onOutputFormatChange: (id: number, format: SubtitleFormat) => void;
+  onEditCue: (id: number, language: string, cueIndex: number, text: string) => void;
+  onReviewCue: (id: number, language: string, cueIndex: number, status: CueReviewStatus | undefined) => void;
+  dualSubtitles: DualSubtitleOptions;
+  readabilityLimits: ReadabilityLimits;
+  onRebalanceLines: (id: number, language: string) => void;
+  onResolveSuggestions: (id: number, language: string, cueIndexes: number[], accept: boolean) => void;
 }
 
-export const ResultItem: React.FC<ResultItemProps> = ({ job, onRetryJob }) => {
+interface TrackResultProps {
+  job: TranslationJob;
+  track: TranslationTrack;
+  onRetryTrack: (id: number, language: string) => void;
+  onEditCue: (id: number, language: string, cueIndex: number, text: string) => void;
+  onReviewCue: (id: number, language: string, cueIndex: number, status: CueReviewStatus | undefined) => void;
+  dualSubtitles: DualSubtitleOptions;
+  readabilityLimits: ReadabilityLimits;
+  onRebalanceLines: (id: number, language: string) => void;
+  onResolveSuggestions: (id: number, language: string, cueIndexes: number[], accept: boolean) => void;
+}
+
+const TRACK_STATUS_CLASSES: Record<TranslationTrack['status'], string> = {
+  queued: 'bg-slate-500/20 text-slate-300',
+  processing: 'bg-cyan-500/20 text-cyan-300 animate-pulse',
+  paused: 'bg-amber-500/20 text-amber-300',
+  completed: 'bg-green-500/20 text-green-300',
+  error: 'bg-red-500/20 text-red-300',
+};
+
+const describeRunSettings = ({ provider, model, generationConfig, useMemory }: RunSettings): string => {
+  const settings = [
+    ['temperature', generationConfig.temperature],
+    ['top-p', generationConfig.topP],
+    ['max output tokens', generationConfig.maxOutputTokens],
+    ['thinking budget', generationConfig.thinkingBudget],
+  ].filter(([, value]) => value !== undefined).map(([name, value]) => `${name} ${value}`);
+  return `${provider} ${model}`
+    + (settings.length > 0 ? ` (${settings.join(', ')})` : ' (default settings)')
+    + (useMemory === false ? ', translation memory off' : '');
+};
+
+const TrackResult: React.FC<TrackResultProps> = ({
+  job, track, onRetryTrack, onEditCue, onReviewCue, dualSubtitles, readabilityLimits, onRebalanceLines, onResolveSuggestions
+}) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [showRawVtt, setShowRawVtt] = useState(false);
   const [isCopied, setIsCopied] = useState(false);
 
-  const cleanVtt = useMemo(() => (job.translatedVtt || '').trim(), [job.translatedVtt]);
+  const cleanVtt = useMemo(() => (track.translatedVtt || '').trim(), [track.translatedVtt]);
+  const isDone = track.status === 'completed';
+  const cues = useMemo(() => (isDone && cleanVtt ? getCues(parseVtt(cleanVtt)) : []), [isDone, cleanVtt]);
+  const cueTexts = useMemo(() => cues.map(cue => cue.text), [cues]);
+  const readabilityIssues = useMemo(() => findReadabilityIssues(cues, readabilityLimits), [cues, readabilityLimits]);
+  const hasLongLines = readabilityIssues.some(issue => issue.exceedsCharsPerLine);
 
   const handleCopy = () => {
     if (!cleanVtt) return;
@@ -26,21 +82,34 @@ export const ResultItem: React.FC<ResultItemProps> = ({ job, onRetryJob }) => {
     setIsCopied(true);
     setTimeout(() => setIsCopied(false), 2000);
   };
-  
-  const handleDownload = () => {
+
+  const handleDownload = async () => {
     if (!cleanVtt) return;
-    downloadFile(cleanVtt, job.file.name.replace('.vtt', '_vi.vtt'));
+    const sourceContent = await readFileAsText(job.file);
+    // Bilingual files pair every translated cue with its source cue.
+    if (dualSubtitles.enabled && supportsDualSubtitles(job.outputFormat)) {
+      const sourceCues = getCues(removeFormatPlaceholders(parseSubtitle(sourceContent, job.format), job.format));
+      const translatedVtt = serializeVtt(removeFormatPlaceholders(parseVtt(cleanVtt), job.format));
+      downloadFile(
+        job.outputFormat === 'srt'
+          ? createDualSrt(translatedVtt, sourceCues, dualSubtitles)
+          : createDualVtt(translatedVtt, sourceCues, dualSubtitles),
+        getOutputFileName(job.file.name, `_${job.sourceLanguage}-${track.language}`, job.outputFormat),
+        getSubtitleMimeType(job.outputFormat),
+      );
+      return;
+    }
+    downloadFile(
+      exportSubtitle(cleanVtt, job.outputFormat, sourceContent, job.format),
+      getOutputFileName(job.file.name, `_${track.language}`, job.outputFormat),
+      getSubtitleMimeType(job.outputFormat),
+    );
   }
 
-  const isSuccess = job.status === 'completed';
-
   return (
-    <div className={clsx(
-        "bg-slate-700/50 rounded-lg transition-all duration-300 animate-fade-in",
-        isSuccess ? "border-l-4 border-green-500" : "border-l-4 border-red-500"
-    )}>
-      <div className="w-full flex items-center justify-between p-3 text-left">
-        <div 
+    <div className="border-t border-slate-600/50">
+      <div className="w-full flex items-center justify-between px-3 py-2 text-left">
+        <div
           className="flex items-center flex-grow cursor-pointer truncate mr-4 group"
           onClick={() => setIsExpanded(!isExpanded)}
           role="button"
@@ -48,35 +117,85 @@ export const ResultItem: React.FC<ResultItemProps> = ({ job, onRetryJob }) => {
           onKeyPress={(e) => ['Enter', ' '].includes(e.key) && setIsExpanded(!isExpanded)}
           aria-expanded={isExpanded}
         >
-          <span className="font-mono text-sm truncate text-slate-200 group-hover:text-cyan-400 transition-colors">{job.file.name}</span>
+          <span className="text-sm truncate text-slate-300 group-hover:text-cyan-400 transition-colors">
+            {getLanguageName(track.language)} <span className="font-mono text-xs text-slate-500">({track.language})</span>
+          </span>
+          {track.usage && (
+            <span
+              className="ml-2 text-xs text-slate-500 flex-shrink-0"
+              title={`${track.usage.promptTokens.toLocaleString()} prompt + ${track.usage.outputTokens.toLocaleString()} output tokens`}
+            >
+              {(track.usage.promptTokens + track.usage.outputTokens).toLocaleString()} tokens
+            </span>
+          )}
+          {track.runSettings && (
+            <span
+              className="ml-2 text-xs font-mono text-slate-500 truncate"
+              title={describeRunSettings(track.runSettings)}
+            >
+              {track.runSettings.model}
+            </span>
+          )}
+          {track.glossaryIssues && (
+            <span
+              className="ml-2 text-xs px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-300 flex-shrink-0"
+              title={track.glossaryIssues.map(issue => `Cue ${issue.cueIndex + 1}: "${issue.term}" should be "${issue.translation}"`).join('\n')}
+            >
+              {track.glossaryIssues.length} glossary
+            </span>
+          )}
+          {track.markupIssues && (
+            <span
+              className="ml-2 text-xs px-1.5 py-0.5 rounded bg-rose-500/20 text-rose-300 flex-shrink-0"
+              title={track.markupIssues.map(issue => `Cue ${issue.cueIndex + 1}: ${issue.problem} ${issue.tag}`).join('\n')}
+            >
+              {track.markupIssues.length} tags
+            </span>
+          )}
+          {track.reviewSuggestions && (
+            <span
+              className="ml-2 text-xs px-1.5 py-0.5 rounded bg-cyan-500/20 text-cyan-300 flex-shrink-0"
+              title="Corrections proposed by the self-review, waiting to be accepted or dismissed"
+            >
+              {track.reviewSuggestions.length} suggested
+            </span>
+          )}
+          {readabilityIssues.length > 0 && (
+            <span
+              className="ml-2 text-xs px-1.5 py-0.5 rounded bg-orange-500/20 text-orange-300 flex-shrink-0"
+              title={`${readabilityIssues.filter(issue => issue.exceedsCharsPerSecond).length} over ${readabilityLimits.maxCharsPerSecond} characters per second, ${readabilityIssues.filter(issue => issue.exceedsCharsPerLine).length} over ${readabilityLimits.maxCharsPerLine} characters per line`}
+            >
+              {readabilityIssues.length} readability
+            </span>
+          )}
           <ChevronDownIcon className={clsx("w-5 h-5 text-slate-400 transition-transform ml-2 flex-shrink-0", isExpanded && "rotate-180")} />
         </div>
-        
+
         <div className="flex items-center space-x-3 flex-shrink-0">
-          <button 
-              onClick={handleCopy} 
+          <button
+              onClick={handleCopy}
               className="p-1.5 rounded-full text-slate-400 hover:bg-slate-600 hover:text-cyan-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-700 focus:ring-cyan-500 transition-colors"
               aria-label="Copy to clipboard"
               title={isCopied ? 'Copied!' : 'Copy to clipboard'}
-              disabled={!cleanVtt}
+              disabled={!isDone || !cleanVtt}
           >
               {isCopied ? <CheckIcon className="w-5 h-5 text-green-400" /> : <ClipboardIcon className="w-5 h-5" />}
           </button>
-          
-          <button 
+
+          <button
               onClick={handleDownload}
               className="p-1.5 rounded-full text-slate-400 hover:bg-slate-600 hover:text-cyan-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-700 focus:ring-cyan-500 transition-colors"
               aria-label="Download translated file"
               title="Download translated file"
-              disabled={!cleanVtt}
+              disabled={!isDone || !cleanVtt}
           >
               <DownloadIcon className="w-5 h-5" />
           </button>
-          
+
           <div className="flex items-center space-x-1.5">
-            {job.status === 'error' && (
-              <button 
-                onClick={() => onRetryJob(job.id)}
+            {track.status === 'error' && (
+              <button
+                onClick={() => onRetryTrack(job.id, track.language)}
                 className="p-1.5 rounded-full text-slate-400 hover:bg-slate-600 hover:text-cyan-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-700 focus:ring-cyan-500 transition-colors"
                 aria-label="Retry translation"
                 title="Retry translation"
@@ -86,31 +205,66 @@ export const ResultItem: React.FC<ResultItemProps> = ({ job, onRetryJob }) => {
             )}
             <span className={clsx(
                 "text-xs font-bold uppercase px-2 py-1 rounded-full",
-                isSuccess ? "bg-green-500/20 text-green-300" : "bg-red-500/20 text-red-300"
+                TRACK_STATUS_CLASSES[track.status]
             )}>
-                {job.status}
+                {track.status}
             </span>
           </div>
         </div>
       </div>
 
       {isExpanded && (
-        <div className="p-3 border-t border-slate-600/50">
-          {job.status !== 'error' && job.translatedVtt !== undefined ? (
+        <div className="px-3 pb-3">
+          {isDone && track.reviewSuggestions && (
+            <ReviewSuggestions
+              suggestions={track.reviewSuggestions}
+              cueTexts={cueTexts}
+              onResolve={(cueIndexes, accept) => onResolveSuggestions(job.id, track.language, cueIndexes, accept)}
+            />
+          )}
+          {isDone && cleanVtt && (
+            <div className="flex justify-end gap-4 mb-2">
+              {hasLongLines && (
+                <button
+                  onClick={() => onRebalanceLines(job.id, track.language)}
+                  className="text-xs text-slate-400 hover:text-cyan-400 transition-colors"
+                  title={`Re-break lines longer than ${readabilityLimits.maxCharsPerLine} characters at word boundaries`}
+                >
+                  Rebalance long lines
+                </button>
+              )}
+              <button
+                onClick={() => setShowRawVtt(!showRawVtt)}
+                className="text-xs text-slate-400 hover:text-cyan-400 transition-colors"
+              >
+                {showRawVtt ? 'Show review editor' : 'Show raw WebVTT'}
+              </button>
+            </div>
+          )}
+          {isDone && cleanVtt && !showRawVtt ? (
+            <CueReviewEditor
+              job={job}
+              track={track}
+              onEditCue={onEditCue}
+              onReviewCue={onReviewCue}
+              readabilityIssues={readabilityIssues}
+              maxCharsPerLine={readabilityLimits.maxCharsPerLine}
+            />
+          ) : track.status !== 'error' && track.translatedVtt !== undefined ? (
             <textarea
               readOnly
               value={cleanVtt}
               className="w-full h-48 p-2 bg-slate-900/50 rounded-md text-slate-300 font-mono text-xs resize-none focus:outline-none"
               spellCheck="false"
             />
-          ) : job.status === 'error' ? (
+          ) : track.status === 'error' ? (
             <div className="p-2 bg-red-900/30 rounded-md">
                 <p className="text-red-300 text-sm font-semibold">Error:</p>
-                <p className="text-red-400 text-xs mt-1 font-mono">{job.error}</p>
-                {job.translatedVtt && (
+                <p className="text-red-400 text-xs mt-1 font-mono">{track.error}</p>
+                {track.translatedVtt && (
                      <textarea
                         readOnly
-                        value={(job.translatedVtt || '').trim()}
+                        value={(track.translatedVtt || '').trim()}
                         className="w-full h-32 p-2 mt-2 bg-slate-900/50 rounded-md text-slate-400 font-mono text-xs resize-y focus:outline-none"
                         spellCheck="false"
                         placeholder="Partial output for debugging..."
@@ -123,3 +277,51 @@ export const ResultItem: React.FC<ResultItemProps> = ({ job, onRetryJob }) => {
     </div>
   );
 };
+
+export const ResultItem: React.FC<ResultItemProps> = ({
+  job, onRetryTrack, onOutputFormatChange, onEditCue, onReviewCue, dualSubtitles, readabilityLimits, onRebalanceLines, onResolveSuggestions
+}) => {
+  const status = getJobStatus(job);
+  const hasOutput = job.tracks.some(track => track.status === 'completed');
+
+  return (
+    <div className={clsx(
+        "bg-slate-700/50 rounded-lg transition-all duration-300 animate-fade-in border-l-4",
+        status === 'completed' && "border-green-500",
+        status === 'error' && "border-red-500",
+        (status === 'queued' || status === 'processing') && "border-cyan-500",
+        status === 'paused' && "border-amber-500"
+    )}>
+      <div className="w-full flex items-center justify-between p-3 text-left">
+        <span className="font-mono text-sm truncate text-slate-200 mr-4">{job.file.name}</span>
+        <select
+            value={job.outputFormat}
+            onChange={(e) => onOutputFormatChange(job.id, e.target.value as SubtitleFormat)}
+            className="bg-slate-900/50 border border-slate-600 rounded-md text-xs text-slate-300 px-1.5 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500 flex-shrink-0"
+            aria-label="Download format"
+            title="Download format"
+            disabled={!hasOutput}
+        >
+            {getExportFormats(job.format).map(format => (
+                <option key={format} value={format}>{SUBTITLE_FORMAT_LABELS[format]}</option>
+            ))}
+        </select>
+      </div>
+
+      {job.tracks.map(track => (
+        <TrackResult
+          key={track.language}
+          job={job}
+          track={track}
+          onRetryTrack={onRetryTrack}
+          onEditCue={onEditCue}
+          onReviewCue={onReviewCue}
+          dualSubtitles={dualSubtitles}
+          readabilityLimits={readabilityLimits}
+          onRebalanceLines={onRebalanceLines}
+          onResolveSuggestions={onResolveSuggestions}
+        />
+      ))}
+    </div>
+  );
+};
@@ -1,14 +1,31 @@
 import React from 'react';
-import { TranslationJob } from '../App';
+import { CueReviewStatus, TranslationJob } from '../App';
 import { ResultItem } from './ResultItem';
+import { DualSubtitleSettings } from './DualSubtitleSettings';
+import { SubtitleFormat } from '../utils/subtitleFormats';
+import { DualSubtitleOptions } from '../utils/dualSubtitleUtils';
+import { ReadabilityLimits } from '../utils/readabilityUtils';
 
 interface ResultsDisplayProps {
   jobs: TranslationJob[];
-  onRetryJob: (id: number) => void;
+  onRetryTrack: (id: number, language: string) => void;
+  onOutputFormatChange: (id: number, format: SubtitleFormat) => void;
+  onEditCue: (id: number, language: string, cueIndex: number, text: string) => void;
+  onReviewCue: (id: number, language: string, cueIndex: number, status: CueReviewStatus | undefined) => void;
+  dualSubtitles: DualSubtitleOptions;
+  onDualSubtitlesChange: (options: DualSubtitleOptions) => void;
+  readabilityLimits: ReadabilityLimits;
+  /** Re-breaks the over-long lines of a completed track. */
+  onRebalanceLines: (id: number, language: string) => void;
+  onResolveSuggestions: (id: number, language: string, cueIndexes: number[], accept: boolean) => void;
 }
 
-export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ jobs, onRetryJob }) => {
-  const processedJobs = jobs.filter(job => job.status === 'completed' || job.status === 'error');
+export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
+  jobs, onRetryTrack, onOutputFormatChange, onEditCue, onReviewCue, dualSubtitles, onDualSubtitlesChange,
+  readabilityLimits, onRebalanceLines, onResolveSuggestions
+}) => {
+  // A file shows up once any of its languages has finished or paused, with the remaining languages listed under it.
+  const processedJobs = jobs.filter(job => job.tracks.some(track => track.status === 'completed' || track.status === 'error' || track.status === 'paused'));
 
   return (
     <div className="flex flex-col h-full bg-slate-800 rounded-lg shadow-lg min-h-[500px] lg:min-h-0 overflow-hidden">
@@ -18,8 +35,20 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ jobs, onRetryJob
         </div>
       ) : (
         <div className="h-full overflow-y-auto p-4 space-y-3">
+            <DualSubtitleSettings value={dualSubtitles} onChange={onDualSubtitlesChange} />
             {processedJobs.map(job => (
-                <ResultItem key={job.id} job={job} onRetryJob={onRetryJob} />
+                <ResultItem
+                    key={job.id}
+                    job={job}
+                    onRetryTrack={onRetryTrack}
+                    onOutputFormatChange={onOutputFormatChange}
+                    onEditCue={onEditCue}
+                    onReviewCue={onReviewCue}
+                    dualSubtitles={dualSubtitles}
+                    readabilityLimits={readabilityLimits}
+                    onRebalanceLines={onRebalanceLines}
+                    onResolveSuggestions={onResolveSuggestions}
+                />
             ))}
         </div>
       )}
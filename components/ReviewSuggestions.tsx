@@ -0,0 +1,76 @@
+import React from 'react';
+import clsx from 'clsx';
+import { ReviewSuggestion } from '../App';
+import { diffWords } from '../utils/textDiff';
+
+interface ReviewSuggestionsProps {
+  suggestions: ReviewSuggestion[];
+  /** The current text of each cue, to notice drafts that were edited after the review. */
+  cueTexts: string[];
+  /** Accepts the corrections of the given cues, or dismisses them to keep the drafts. */
+  onResolve: (cueIndexes: number[], accept: boolean) => void;
+}
+
+const buttonClassName = "px-2 py-1 text-xs font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors";
+
+const SuggestionDiff: React.FC<{ before: string; after: string }> = ({ before, after }) => (
+  <p className="text-sm whitespace-pre-wrap break-words">
+    {diffWords(before, after).map((part, index) => (
+      <span
+        key={index}
+        className={clsx(
+          part.type === 'equal' && "text-slate-300",
+          part.type === 'removed' && "text-red-300 bg-red-900/40 line-through",
+          part.type === 'added' && "text-green-300 bg-green-900/40"
+        )}
+      >
+        {part.text}
+      </span>
+    ))}
+  </p>
+);
+
+export const ReviewSuggestions: React.FC<ReviewSuggestionsProps> = ({ suggestions, cueTexts, onResolve }) => {
+  const allIndexes = suggestions.map(suggestion => suggestion.cueIndex);
+
+  return (
+    <div className="mb-3 rounded-md border border-cyan-700/60 bg-slate-900/30">
+      <div className="flex flex-wrap items-center gap-2 px-2 py-2">
+        <span className="text-xs font-medium text-slate-300 mr-auto">
+          The reviewer proposed {suggestions.length} correction(s)
+        </span>
+        <button onClick={() => onResolve(allIndexes, false)} className={clsx(buttonClassName, "text-slate-300 bg-slate-700 hover:bg-slate-600")}>
+          Keep All Drafts
+        </button>
+        <button onClick={() => onResolve(allIndexes, true)} className={clsx(buttonClassName, "text-white bg-cyan-600 hover:bg-cyan-700")}>
+          Accept All
+        </button>
+      </div>
+      <div className="max-h-72 overflow-y-auto">
+        {suggestions.map(suggestion => {
+          const currentText = cueTexts[suggestion.cueIndex];
+          return (
+            <div key={suggestion.cueIndex} className="grid grid-cols-[3rem_1fr_auto] gap-3 items-start px-2 py-2 border-t border-slate-700/70">
+              <div className="text-xs text-slate-300 font-mono">#{suggestion.cueIndex + 1}</div>
+              <div>
+                <SuggestionDiff before={suggestion.draft} after={suggestion.text} />
+                {suggestion.reason && <p className="mt-1 text-[11px] text-slate-500">{suggestion.reason}</p>}
+                {currentText !== undefined && currentText !== suggestion.draft && (
+                  <p className="mt-1 text-[11px] text-amber-300">The cue was edited after the review; accepting replaces the edit.</p>
+                )}
+              </div>
+              <div className="flex flex-col gap-1">
+                <button onClick={() => onResolve([suggestion.cueIndex], true)} className={clsx(buttonClassName, "text-green-300 bg-slate-700 hover:bg-slate-600")}>
+                  Accept
+                </button>
+                <button onClick={() => onResolve([suggestion.cueIndex], false)} className={clsx(buttonClassName, "text-slate-300 bg-slate-700 hover:bg-slate-600")}>
+                  Keep Draft
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
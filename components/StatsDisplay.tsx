@@ -1,6 +1,7 @@
 
 import React from 'react';
 import { TranslationJob } from '../App';
+import { countTracks } from '../utils/jobUtils';
 import { ArchiveBoxIcon } from './icons/ArchiveBoxIcon';
 import { CheckCircleIcon } from './icons/CheckCircleIcon';
 import { ClockIcon } from './icons/ClockIcon';
@@ -30,10 +31,11 @@ const StatCard: React.FC<{
 };
 
 export const StatsDisplay: React.FC<StatsDisplayProps> = ({ jobs }) => {
-  const total = jobs.length;
-  const completed = jobs.filter(j => j.status === 'completed').length;
-  const remaining = jobs.filter(j => j.status === 'queued' || j.status === 'processing').length;
-  const failed = jobs.filter(j => j.status === 'error').length;
+  // Each target language of a file counts as one translation.
+  const total = jobs.reduce((count, job) => count + job.tracks.length, 0);
+  const completed = countTracks(jobs, 'completed');
+  const remaining = countTracks(jobs, 'queued') + countTracks(jobs, 'processing') + countTracks(jobs, 'paused');
+  const failed = countTracks(jobs, 'error');
 
   if (total === 0) {
       return null;
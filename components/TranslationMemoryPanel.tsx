@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import clsx from 'clsx';
+import { ChevronDownIcon } from './icons/ChevronDownIcon';
+import { DownloadIcon } from './icons/DownloadIcon';
+import { UploadIcon } from './icons/UploadIcon';
+import { XIcon } from './icons/XIcon';
+import { deleteMemoryEntry, loadMemoryEntries, saveMemoryEntries } from '../services/persistence';
+import { MemoryEntry, normalizeMemoryText, parseTmx, serializeTmx } from '../utils/translationMemory';
+import { LANGUAGES, LanguagePair, LanguageSelection } from '../utils/languages';
+import { downloadFile, readFileAsText } from '../utils/fileUtils';
+
+interface TranslationMemoryPanelProps {
+  /** The current language selection; the panel starts on its first pair. */
+  languages: LanguageSelection;
+  /** Changes whenever translations were added to the memory, so the list reloads. */
+  revision: number;
+  onNotify: (notification: { type: 'error' | 'success'; message: string }) => void;
+}
+
+interface MemoryRowProps {
+  entry: MemoryEntry;
+  onSave: (entry: MemoryEntry) => void;
+  onDelete: (entry: MemoryEntry) => void;
+}
+
+/** Rows shown at once; searching narrows the list down further. */
+const MAX_VISIBLE_ENTRIES = 100;
+
+const inputClassName = "bg-slate-900/70 border border-slate-600 rounded-md shadow-sm px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+const buttonClassName = "inline-flex items-center px-3 py-1.5 text-xs font-medium rounded-md text-slate-300 bg-slate-700 hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-cyan-500 transition-colors cursor-pointer";
+
+const MemoryRow: React.FC<MemoryRowProps> = ({ entry, onSave, onDelete }) => {
+  const [draft, setDraft] = useState(entry.target);
+
+  useEffect(() => {
+    setDraft(entry.target);
+  }, [entry.target]);
+
+  // Edits are saved when the field loses focus; clearing a translation restores it.
+  const handleBlur = () => {
+    if (!draft.trim()) {
+      setDraft(entry.target);
+    } else if (draft !== entry.target) {
+      onSave({ ...entry, target: draft, updatedAt: Date.now() });
+    }
+  };
+
+  return (
+    <li className="grid grid-cols-[1fr_1fr_auto] gap-3 items-start py-2 border-t border-slate-700/70">
+      <p className="text-sm text-slate-400 whitespace-pre-wrap break-words">{entry.source}</p>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={handleBlur}
+        rows={Math.max(1, draft.split('\n').length)}
+        aria-label={`Translation of "${entry.source}"`}
+        className="w-full p-1.5 bg-slate-900/50 rounded-md text-slate-200 text-sm border border-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 resize-y"
+      />
+      <button
+        onClick={() => onDelete(entry)}
+        className="p-1.5 rounded-full text-slate-400 hover:bg-slate-600 hover:text-red-400 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors"
+        aria-label="Delete entry"
+        title="Delete entry"
+      >
+        <XIcon className="w-4 h-4" />
+      </button>
+    </li>
+  );
+};
+
+export const TranslationMemoryPanel: React.FC<TranslationMemoryPanelProps> = ({ languages, revision, onNotify }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [pair, setPair] = useState<LanguagePair>({ source: languages.source, target: languages.targets[0] });
+  const [entries, setEntries] = useState<MemoryEntry[]>([]);
+  const [search, setSearch] = useState('');
+
+  const reload = useCallback(() => {
+    loadMemoryEntries(pair)
+      .then(setEntries)
+      .catch(error => console.error('Failed to load the translation memory:', error));
+  }, [pair]);
+
+  useEffect(() => {
+    if (isExpanded) reload();
+  }, [isExpanded, reload, revision]);
+
+  const visibleEntries = useMemo(() => {
+    const query = normalizeMemoryText(search).toLowerCase();
+    return query
+      ? entries.filter(entry => entry.key.toLowerCase().includes(query) || entry.target.toLowerCase().includes(query))
+      : entries;
+  }, [entries, search]);
+
+  const handleSave = (entry: MemoryEntry) => {
+    setEntries(prev => prev.map(existing => (existing.key === entry.key ? entry : existing)));
+    saveMemoryEntries([entry]).catch(error => {
+      console.error('Failed to save the memory entry:', error);
+      onNotify({ type: 'error', message: 'Could not save the edited translation.' });
+    });
+  };
+
+  const handleDelete = (entry: MemoryEntry) => {
+    setEntries(prev => prev.filter(existing => existing.key !== entry.key));
+    deleteMemoryEntry(entry).catch(error => console.error('Failed to delete the memory entry:', error));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseTmx(await readFileAsText(file));
+      await saveMemoryEntries(imported);
+      reload();
+      onNotify({ type: 'success', message: `Imported ${imported.length} translation(s) from ${file.name}.` });
+    } catch (error) {
+      onNotify({ type: 'error', message: error instanceof Error ? error.message : `Could not import ${file.name}.` });
+    }
+  };
+
+  const handleExport = () => {
+    downloadFile(serializeTmx(entries), `translation-memory_${pair.source}-${pair.target}.tmx`, 'application/x-tmx+xml;charset=utf-8;');
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-lg border border-slate-700">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between p-4 text-left"
+        aria-expanded={isExpanded}
+      >
+        <span className="text-sm font-medium text-slate-300">
+          Translation Memory
+          <span className="ml-2 text-xs text-slate-500">Repeated lines are reused instead of being translated again.</span>
+        </span>
+        <ChevronDownIcon className={clsx("w-5 h-5 text-slate-400 transition-transform", isExpanded && "rotate-180")} />
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 pb-4">
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            <select
+              value={pair.source}
+              onChange={(e) => setPair({ ...pair, source: e.target.value })}
+              aria-label="Source language"
+              className={inputClassName}
+            >
+              {LANGUAGES.map(language => (
+                <option key={language.code} value={language.code}>{language.name}</option>
+              ))}
+            </select>
+            <span className="text-slate-500">→</span>
+            <select
+              value={pair.target}
+              onChange={(e) => setPair({ ...pair, target: e.target.value })}
+              aria-label="Target language"
+              className={inputClassName}
+            >
+              {LANGUAGES.map(language => (
+                <option key={language.code} value={language.code}>{language.name}</option>
+              ))}
+            </select>
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search source or translation"
+              className={clsx(inputClassName, "flex-grow min-w-[12rem]")}
+            />
+            <label className={buttonClassName}>
+              <UploadIcon className="w-4 h-4 mr-1.5" />
+              Import TMX
+              <input type="file" accept=".tmx,.xml" className="hidden" onChange={handleImport} />
+            </label>
+            <button onClick={handleExport} disabled={entries.length === 0} className={clsx(buttonClassName, "disabled:opacity-50 disabled:cursor-not-allowed")}>
+              <DownloadIcon className="w-4 h-4 mr-1.5" />
+              Export TMX
+            </button>
+          </div>
+
+          {visibleEntries.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              {entries.length === 0 ? 'No translations remembered for this language pair yet.' : 'No entries match the search.'}
+            </p>
+          ) : (
+            <>
+              <ul className="max-h-96 overflow-y-auto pr-2">
+                {visibleEntries.slice(0, MAX_VISIBLE_ENTRIES).map(entry => (
+                  <MemoryRow key={entry.key} entry={entry} onSave={handleSave} onDelete={handleDelete} />
+                ))}
+              </ul>
+              <p className="mt-2 text-xs text-slate-500">
+                {visibleEntries.length > MAX_VISIBLE_ENTRIES
+                  ? `Showing ${MAX_VISIBLE_ENTRIES} of ${visibleEntries.length} entries. Search to find others.`
+                  : `${visibleEntries.length} of ${entries.length} entries.`}
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+
+import React from 'react';
+import clsx from 'clsx';
+import { TranslationMode } from '../services/translationService';
+
+interface TranslationModeSelectorProps {
+  value: TranslationMode;
+  onChange: (mode: TranslationMode) => void;
+  disabled: boolean;
+}
+
+const MODES: { value: TranslationMode; label: string; description: string }[] = [
+  {
+    value: 'vtt',
+    label: 'VTT Blocks',
+    description: 'Sends whole cue blocks, timestamps included, and checks the cue count of the reply.',
+  },
+  {
+    value: 'json',
+    label: 'Structured JSON',
+    description: 'Sends only cue text as {id, text} pairs. Timings are rebuilt locally and can never be altered.',
+  },
+];
+
+export const TranslationModeSelector: React.FC<TranslationModeSelectorProps> = ({ value, onChange, disabled }) => {
+  const activeMode = MODES.find(mode => mode.value === value);
+
+  return (
+    <div>
+      <span className="block text-sm font-medium text-slate-300 mb-2">Translation Mode</span>
+      <div className="inline-flex rounded-md shadow-sm" role="group">
+        {MODES.map((mode, index) => (
+          <button
+            key={mode.value}
+            type="button"
+            onClick={() => onChange(mode.value)}
+            disabled={disabled}
+            aria-pressed={value === mode.value}
+            className={clsx(
+              "px-4 py-1.5 text-xs font-medium border border-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors",
+              index === 0 ? 'rounded-l-md' : 'rounded-r-md -ml-px',
+              value === mode.value ? 'bg-cyan-600 text-white' : 'bg-slate-900/50 text-slate-300 hover:bg-slate-600'
+            )}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500 mt-1">
+        {activeMode?.description}
+      </p>
+    </div>
+  );
+};
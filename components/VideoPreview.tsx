@@ -0,0 +1,81 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { VttDocument, serializeVtt } from '../utils/vttUtils';
+import { getLanguageName } from '../utils/languages';
+
+export interface PreviewTrack {
+  language: string;
+  document: VttDocument;
+  /** Shows this track when the video loads. */
+  isDefault?: boolean;
+}
+
+interface VideoPreviewProps {
+  /** A local video file; it is played from a blob URL and never leaves the browser. */
+  file: File;
+  tracks: PreviewTrack[];
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  /** Called with the playback position in milliseconds. */
+  onTimeUpdate: (time: number) => void;
+}
+
+/**
+ * Creates a blob URL for the given content and revokes it when the content changes or the component unmounts.
+ */
+const useObjectUrl = (content: Blob | null): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!content) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(content);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [content]);
+
+  return url;
+};
+
+const TrackElement: React.FC<{ track: PreviewTrack }> = ({ track }) => {
+  // Players expect a WEBVTT header even when the cues came from a headerless fragment or another format.
+  const blob = useMemo(
+    () => new Blob([serializeVtt({ ...track.document, bom: false, header: track.document.header || 'WEBVTT' })], { type: 'text/vtt' }),
+    [track.document]
+  );
+  const url = useObjectUrl(blob);
+  if (!url) return null;
+
+  // Browsers do not reload a track whose src changes, so each URL gets its own element.
+  return (
+    <track
+      key={url}
+      kind="subtitles"
+      src={url}
+      srcLang={track.language}
+      label={getLanguageName(track.language)}
+      default={track.isDefault}
+    />
+  );
+};
+
+export const VideoPreview: React.FC<VideoPreviewProps> = ({ file, tracks, videoRef, onTimeUpdate }) => {
+  const videoUrl = useObjectUrl(file);
+
+  if (!videoUrl) return null;
+
+  return (
+    <video
+      ref={videoRef}
+      src={videoUrl}
+      controls
+      onTimeUpdate={(e) => onTimeUpdate(e.currentTarget.currentTime * 1000)}
+      onSeeked={(e) => onTimeUpdate(e.currentTarget.currentTime * 1000)}
+      className="w-full max-h-80 rounded-md bg-black"
+    >
+      {tracks.map(track => (
+        <TrackElement key={track.language} track={track} />
+      ))}
+    </video>
+  );
+};
@@ -0,0 +1,278 @@
+import type { TranslationJob, TranslationTrack } from '../App';
+import type { TranslationMode } from './translationService';
+import type { GenerationConfig, ProviderSettings } from './providers/types';
+import type { RateLimitSettings } from './rateLimiter';
+import type { LanguagePair, LanguageSelection } from '../utils/languages';
+import type { MemoryEntry } from '../utils/translationMemory';
+import type { Glossary } from '../utils/glossaryUtils';
+import type { DualSubtitleOptions } from '../utils/dualSubtitleUtils';
+import type { ReadabilityLimits } from '../utils/readabilityUtils';
+import { Cue } from '../utils/vttUtils';
+import { SubtitleFormat } from '../utils/subtitleFormats';
+import { readFileAsText } from '../utils/fileUtils';
+
+const DATABASE_NAME = 'subtitle-translator';
+const DATABASE_VERSION = 2;
+
+/** A job as stored, without the `File`; its content lives in the `sources` store. */
+interface StoredJob {
+  id: number;
+  fileName: string;
+  format: SubtitleFormat;
+  outputFormat: SubtitleFormat;
+  sourceLanguage: string;
+  tracks: TranslationTrack[];
+}
+
+interface StoredSource {
+  jobId: number;
+  content: string;
+}
+
+/** The translated cues of one chunk of a track, saved as soon as the chunk is done. */
+interface StoredChunk {
+  jobId: number;
+  language: string;
+  /** Source language the chunk was translated from; chunks of another source language are ignored. */
+  sourceLanguage: string;
+  /** Index of the chunk's first cue in the source file. */
+  startIndex: number;
+  cues: Cue[];
+}
+
+export interface StoredSettings {
+  providerSettings: ProviderSettings;
+  generationConfig: GenerationConfig;
+  rateLimits: RateLimitSettings;
+  languages: LanguageSelection;
+  /** The free-text glossary of earlier versions; read once to migrate it into `glossaries`. */
+  glossary: string;
+  glossaries: Glossary[];
+  /** The glossary used for translating, or an empty string for none. */
+  activeGlossaryId: string;
+  translationMode: TranslationMode;
+  /** Whether each translated chunk is sent to a second, reviewing request. */
+  selfReview: boolean;
+  /** Whether cues found in the translation memory are filled in instead of being translated. */
+  useMemory: boolean;
+  dualSubtitles: DualSubtitleOptions;
+  readabilityLimits: ReadabilityLimits;
+}
+
+let databasePromise: Promise<IDBDatabase> | undefined;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  databasePromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = ({ oldVersion }) => {
+      const database = request.result;
+      if (oldVersion < 1) {
+        database.createObjectStore('jobs', { keyPath: 'id' });
+        database.createObjectStore('sources', { keyPath: 'jobId' });
+        database.createObjectStore('chunks', { keyPath: ['jobId', 'language', 'startIndex'] })
+          .createIndex('track', ['jobId', 'language']);
+        database.createObjectStore('settings');
+      }
+      if (oldVersion < 2) {
+        database.createObjectStore('memory', { keyPath: ['sourceLanguage', 'targetLanguage', 'key'] })
+          .createIndex('pair', ['sourceLanguage', 'targetLanguage']);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return databasePromise;
+};
+
+/**
+ * Loads the queue saved by the previous session.
+ * Tracks that were running when the page closed come back paused, keeping their finished chunks.
+ * @returns The restored jobs, with their source files rebuilt from the stored content.
+ */
+export const loadQueue = async (): Promise<TranslationJob[]> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(['jobs', 'sources'], 'readonly');
+  const [storedJobs, storedSources] = await Promise.all([
+    requestToPromise<StoredJob[]>(transaction.objectStore('jobs').getAll()),
+    requestToPromise<StoredSource[]>(transaction.objectStore('sources').getAll()),
+  ]);
+  const contents = new Map(storedSources.map(source => [source.jobId, source.content]));
+
+  return storedJobs
+    .filter(job => contents.has(job.id))
+    .sort((a, b) => a.id - b.id)
+    .map(({ fileName, ...job }) => ({
+      ...job,
+      file: new File([contents.get(job.id)!], fileName),
+      tracks: job.tracks.map(({ progress, ...track }) =>
+        track.status === 'processing' ? { ...track, status: 'paused' } : track
+      ),
+    }));
+};
+
+let pendingSave: Promise<void> = Promise.resolve();
+
+const writeQueue = async (jobs: TranslationJob[]) => {
+  const database = await openDatabase();
+  const storedSourceIds = await requestToPromise(
+    database.transaction('sources', 'readonly').objectStore('sources').getAllKeys()
+  );
+  // Source files are read before the write transaction opens, which would otherwise commit while waiting.
+  const newSources: StoredSource[] = await Promise.all(
+    jobs
+      .filter(job => !storedSourceIds.includes(job.id))
+      .map(async job => ({ jobId: job.id, content: await readFileAsText(job.file) }))
+  );
+
+  const transaction = database.transaction(['jobs', 'sources', 'chunks'], 'readwrite');
+  const jobStore = transaction.objectStore('jobs');
+  const sourceStore = transaction.objectStore('sources');
+  const chunkStore = transaction.objectStore('chunks');
+  const tracksByJob = new Map(jobs.map(job => [job.id, new Set(job.tracks.map(track => track.language))]));
+
+  jobStore.clear();
+  jobs.forEach(({ file, ...job }) => jobStore.put({ ...job, fileName: file.name } satisfies StoredJob));
+  newSources.forEach(source => sourceStore.put(source));
+  storedSourceIds
+    .filter(id => !tracksByJob.has(id as number))
+    .forEach(id => sourceStore.delete(id));
+
+  // Drop the saved chunks of removed jobs and languages.
+  const chunkKeys = await requestToPromise(chunkStore.getAllKeys());
+  for (const key of chunkKeys) {
+    const [jobId, language] = key as [number, string, number];
+    if (!tracksByJob.get(jobId)?.has(language)) chunkStore.delete(key);
+  }
+  await transactionDone(transaction);
+};
+
+/**
+ * Saves the queue, replacing what was stored before. Source file contents are
+ * written once per job; jobs missing from the list are removed with their
+ * content and chunks. Saves run one after another in call order.
+ * @param jobs The current jobs.
+ */
+export const saveQueue = (jobs: TranslationJob[]): Promise<void> => {
+  const save = pendingSave.then(() => writeQueue(jobs));
+  pendingSave = save.catch(error => console.error('Failed to save the queue:', error));
+  return save;
+};
+
+/**
+ * Saves the translated cues of one completed chunk of a track.
+ * @param jobId The job.
+ * @param language The track's target language.
+ * @param sourceLanguage The language the chunk was translated from.
+ * @param startIndex Index of the chunk's first cue in the source file.
+ * @param cues The translated cues.
+ */
+export const saveChunk = async (jobId: number, language: string, sourceLanguage: string, startIndex: number, cues: Cue[]): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction('chunks', 'readwrite');
+  transaction.objectStore('chunks').put({ jobId, language, sourceLanguage, startIndex, cues } satisfies StoredChunk);
+  await transactionDone(transaction);
+};
+
+/**
+ * Loads the cues translated so far for a track, up to the first missing chunk.
+ * @param jobId The job.
+ * @param language The track's target language.
+ * @param sourceLanguage Chunks translated from another source language are ignored.
+ * @returns The translated cues from the start of the file, in order.
+ */
+export const loadTranslatedCues = async (jobId: number, language: string, sourceLanguage: string): Promise<Cue[]> => {
+  const database = await openDatabase();
+  const chunks = await requestToPromise<StoredChunk[]>(
+    database.transaction('chunks', 'readonly').objectStore('chunks').index('track').getAll([jobId, language])
+  );
+  const cues: Cue[] = [];
+  for (const chunk of chunks.sort((a, b) => a.startIndex - b.startIndex)) {
+    if (chunk.sourceLanguage !== sourceLanguage || chunk.startIndex !== cues.length) break;
+    cues.push(...chunk.cues);
+  }
+  return cues;
+};
+
+/**
+ * Deletes the saved chunks of a track, e.g. once its full translation is stored.
+ */
+export const deleteChunks = async (jobId: number, language: string): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction('chunks', 'readwrite');
+  const store = transaction.objectStore('chunks');
+  const keys = await requestToPromise(store.index('track').getAllKeys([jobId, language]));
+  keys.forEach(key => store.delete(key));
+  await transactionDone(transaction);
+};
+
+/**
+ * Loads the saved settings. Settings never saved are missing from the result.
+ */
+export const loadSettings = async (): Promise<Partial<StoredSettings>> => {
+  const database = await openDatabase();
+  const store = database.transaction('settings', 'readonly').objectStore('settings');
+  const [keys, values] = await Promise.all([
+    requestToPromise(store.getAllKeys()),
+    requestToPromise(store.getAll()),
+  ]);
+  return Object.fromEntries(keys.map((key, index) => [key, values[index]]));
+};
+
+/**
+ * Saves one setting.
+ */
+export const saveSetting = async <K extends keyof StoredSettings>(key: K, value: StoredSettings[K]): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction('settings', 'readwrite');
+  transaction.objectStore('settings').put(value, key);
+  await transactionDone(transaction);
+};
+
+/**
+ * Loads the translation memory of one language pair, or of every pair.
+ * @param languages The language pair; all entries are loaded when omitted.
+ * @returns The entries, most recently updated first.
+ */
+export const loadMemoryEntries = async (languages?: LanguagePair): Promise<MemoryEntry[]> => {
+  const database = await openDatabase();
+  const store = database.transaction('memory', 'readonly').objectStore('memory');
+  const entries = await requestToPromise<MemoryEntry[]>(languages
+    ? store.index('pair').getAll([languages.source, languages.target])
+    : store.getAll());
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Adds entries to the translation memory. An entry replaces the one with the
+ * same normalized source text and language pair.
+ */
+export const saveMemoryEntries = async (entries: MemoryEntry[]): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction('memory', 'readwrite');
+  const store = transaction.objectStore('memory');
+  entries.forEach(entry => store.put(entry));
+  await transactionDone(transaction);
+};
+
+/**
+ * Removes one entry from the translation memory.
+ */
+export const deleteMemoryEntry = async ({ sourceLanguage, targetLanguage, key }: MemoryEntry): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction('memory', 'readwrite');
+  transaction.objectStore('memory').delete([sourceLanguage, targetLanguage, key]);
+  await transactionDone(transaction);
+};
@@ -0,0 +1,47 @@
+import { GenerationConfig, ProviderSettings, TranslationProvider } from './types';
+import { DEFAULT_GEMINI_MODEL, createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  type: 'gemini',
+  baseUrl: 'http://localhost:8000/v1',
+  model: '',
+  apiKey: '',
+  geminiModel: DEFAULT_GEMINI_MODEL,
+};
+
+export const DEFAULT_GENERATION_CONFIG: GenerationConfig = {};
+
+/**
+ * Checks whether the selected provider has everything it needs to send requests.
+ * @param settings The provider settings.
+ * @param geminiApiKey The saved Gemini API key.
+ */
+export const isProviderConfigured = (settings: ProviderSettings, geminiApiKey: string): boolean => {
+  switch (settings.type) {
+    case 'gemini': return !!geminiApiKey;
+    case 'openai-compatible': return !!settings.baseUrl.trim() && !!settings.model.trim();
+  }
+};
+
+/**
+ * Creates the translation provider selected in the settings.
+ * @param settings The provider settings.
+ * @param geminiApiKey The saved Gemini API key, used when Gemini is selected.
+ * @param generationConfig Sampling settings sent with every request.
+ */
+export const createTranslationProvider = (
+  settings: ProviderSettings,
+  geminiApiKey: string,
+  generationConfig: GenerationConfig,
+): TranslationProvider => {
+  switch (settings.type) {
+    case 'gemini':
+      if (!geminiApiKey) {
+        throw new Error("API Key is not provided. Please set your API key.");
+      }
+      return createGeminiProvider(geminiApiKey, settings.geminiModel, generationConfig);
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider(settings, generationConfig);
+  }
+};
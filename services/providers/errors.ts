@@ -0,0 +1,60 @@
+/**
+ * A user-facing error raised while talking to a translation backend.
+ * Subclasses say whether sending the same request again can succeed.
+ */
+export abstract class TranslationError extends Error {
+  /** Whether the same request can succeed if sent again. */
+  abstract readonly retryable: boolean;
+
+  /**
+   * @param message The user-facing message.
+   * @param retryAfterMs How long the server asked to wait before retrying, if it said.
+   */
+  constructor(message: string, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'TranslationError';
+  }
+}
+
+/** The API key is missing, wrong or lacks access. Retrying cannot help. */
+export class InvalidKeyError extends TranslationError {
+  readonly retryable = false;
+}
+
+/** The quota is used up for now. Retrying after the server's delay can succeed. */
+export class RateLimitedError extends TranslationError {
+  readonly retryable = true;
+}
+
+/** The prompt or reply was blocked by content filters. The same content is blocked again. */
+export class SafetyBlockedError extends TranslationError {
+  readonly retryable = false;
+}
+
+/** The server failed or returned an unusable reply. */
+export class ServerError extends TranslationError {
+  readonly retryable: boolean;
+
+  /**
+   * @param message The user-facing message.
+   * @param status The HTTP status, if the server answered. Client errors other than timeouts are not retried.
+   * @param retryAfterMs How long the server asked to wait before retrying, if it said.
+   */
+  constructor(message: string, readonly status?: number, retryAfterMs?: number) {
+    super(message, retryAfterMs);
+    this.retryable = status === undefined || status >= 500 || status === 408;
+  }
+}
+
+/** The server could not be reached at all. */
+export class NetworkError extends TranslationError {
+  readonly retryable = true;
+}
+
+/**
+ * The reply arrived but could not be used, e.g. malformed JSON or missing cues.
+ * Nothing went wrong on the server, and asking again can succeed.
+ */
+export class ValidationError extends TranslationError {
+  readonly retryable = true;
+}
@@ -0,0 +1,150 @@
+import { ApiError, FinishReason, GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { ChatOptions, ChatSession, GenerationConfig, TranslationProvider, TranslationStreamChunk } from './types';
+import { InvalidKeyError, NetworkError, RateLimitedError, SafetyBlockedError, ServerError, TranslationError } from './errors';
+
+export const GEMINI_MODELS: { value: string; label: string }[] = [
+  { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
+  { value: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash-Lite' },
+  { value: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro (thinking cannot be turned off)' },
+];
+
+export const DEFAULT_GEMINI_MODEL = GEMINI_MODELS[0].value;
+
+/**
+ * The smallest thinking budget a Gemini model accepts, apart from -1. Pro models cannot turn thinking off.
+ * @param model The Gemini model.
+ */
+export const getMinThinkingBudget = (model: string): number => (model.includes('-pro') ? 128 : 0);
+
+interface GoogleRpcError {
+  code?: number;
+  message?: string;
+  status?: string;
+  details?: { '@type'?: string; retryDelay?: string }[];
+}
+
+/**
+ * Extracts the `error` object the API embeds as JSON in the message of an `ApiError`.
+ */
+const parseRpcError = (message: string): GoogleRpcError | undefined => {
+  const jsonStart = message.indexOf('{');
+  if (jsonStart === -1) return undefined;
+  try {
+    return JSON.parse(message.slice(jsonStart)).error;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Reads the delay of a `google.rpc.RetryInfo` detail, e.g. `"38s"` or `"0.5s"`, in milliseconds.
+ */
+const getRetryDelayMs = (rpcError: GoogleRpcError | undefined): number | undefined => {
+  const retryInfo = rpcError?.details?.find(detail => detail['@type']?.endsWith('google.rpc.RetryInfo'));
+  const match = /^(\d+(?:\.\d+)?)s$/.exec(retryInfo?.retryDelay ?? '');
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+const classifyGeminiError = (error: unknown): TranslationError => {
+  if (error instanceof TranslationError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (!(error instanceof ApiError)) {
+    // fetch rejects with a TypeError when the API cannot be reached at all.
+    if (error instanceof TypeError) {
+      return new NetworkError(`Could not reach the Gemini API: ${message}. Check your connection.`);
+    }
+    return new ServerError(`Failed to call the Gemini API: ${message}`);
+  }
+
+  const rpcError = parseRpcError(message);
+  const detail = rpcError?.message ?? message;
+  if (error.status === 429 || rpcError?.status === 'RESOURCE_EXHAUSTED') {
+    const retryAfterMs = getRetryDelayMs(rpcError);
+    return new RateLimitedError(
+      `RESOURCE_EXHAUSTED: Your API key has exceeded its usage quota` +
+      (retryAfterMs !== undefined ? `; the API asked to retry in ${Math.ceil(retryAfterMs / 1000)}s.` : '. Please try again later or check your Google AI Studio dashboard.'),
+      retryAfterMs,
+    );
+  }
+  if (error.status === 401 || error.status === 403 || /api key not valid/i.test(detail)) {
+    return new InvalidKeyError('Invalid API Key: The provided API key is not valid. Please check and re-enter it.');
+  }
+  return new ServerError(`The Gemini API returned HTTP ${error.status}: ${detail}`, error.status, getRetryDelayMs(rpcError));
+};
+
+/** Finish reasons meaning the reply was withheld by content filters. */
+const BLOCKED_FINISH_REASONS = new Set<string>([
+  FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII,
+]);
+
+async function* toStreamChunks(stream: AsyncGenerator<GenerateContentResponse>): AsyncGenerator<TranslationStreamChunk> {
+  try {
+    for await (const response of stream) {
+      const blockReason = response.promptFeedback?.blockReason;
+      const finishReason = response.candidates?.[0]?.finishReason;
+      if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.has(finishReason))) {
+        throw new SafetyBlockedError(`Content Blocked: The request was blocked due to safety settings (${blockReason ?? finishReason}). Please check the content of your subtitle file.`);
+      }
+      const usage = response.usageMetadata;
+      yield {
+        text: response.text ?? '',
+        usage: usage ? { promptTokens: usage.promptTokenCount ?? 0, outputTokens: usage.candidatesTokenCount ?? 0 } : undefined,
+        truncated: finishReason === FinishReason.MAX_TOKENS || undefined,
+      };
+    }
+  } catch (error) {
+    throw classifyGeminiError(error);
+  }
+}
+
+/**
+ * Creates a provider backed by the Gemini API.
+ * @param apiKey The Gemini API key.
+ * @param model The Gemini model to chat with.
+ * @param generationConfig Sampling and thinking settings for every request.
+ */
+export const createGeminiProvider = (apiKey: string, model: string, generationConfig: GenerationConfig): TranslationProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  const { temperature, topP, maxOutputTokens } = generationConfig;
+  // The API rejects a budget under the model's minimum, e.g. 0 kept from a Flash model, so it is raised.
+  const thinkingBudget = generationConfig.thinkingBudget !== undefined && generationConfig.thinkingBudget >= 0
+    ? Math.max(generationConfig.thinkingBudget, getMinThinkingBudget(model))
+    : generationConfig.thinkingBudget;
+
+  const createChat = (options: ChatOptions = {}): ChatSession => {
+    const chat = ai.chats.create({
+      model,
+      config: {
+        temperature,
+        topP,
+        maxOutputTokens,
+        thinkingConfig: thinkingBudget !== undefined ? { thinkingBudget } : undefined,
+        ...(options.responseSchema
+          ? { responseMimeType: 'application/json', responseJsonSchema: options.responseSchema }
+          : {}),
+      },
+    });
+
+    return {
+      sendMessageStream: async (message: string) => {
+        try {
+          return toStreamChunks(await chat.sendMessageStream({ message }));
+        } catch (error) {
+          throw classifyGeminiError(error);
+        }
+      },
+    };
+  };
+
+  const countTokens = async (text: string): Promise<number> => {
+    try {
+      const response = await ai.models.countTokens({ model, contents: text });
+      return response.totalTokens ?? 0;
+    } catch (error) {
+      throw classifyGeminiError(error);
+    }
+  };
+
+  return { name: 'Gemini', model, createChat, countTokens, classifyError: classifyGeminiError };
+};
@@ -0,0 +1,144 @@
+import { ChatOptions, ChatSession, GenerationConfig, TranslationProvider, TranslationStreamChunk } from './types';
+import { InvalidKeyError, NetworkError, RateLimitedError, ServerError, TranslationError } from './errors';
+
+interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+interface OpenAiCompatibleConfig {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+const classifyOpenAiError = (error: unknown): TranslationError => {
+  if (error instanceof TranslationError) return error;
+  // fetch rejects with a TypeError when the server cannot be reached at all.
+  if (error instanceof TypeError) {
+    return new NetworkError(`Could not reach the translation server: ${error.message}. Check the base URL and that the server allows cross-origin requests.`);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new ServerError(`Failed to call the translation server: ${message}`);
+};
+
+/**
+ * Reads the `Retry-After` header, given either in seconds or as an HTTP date, in milliseconds.
+ */
+const getRetryAfterMs = (headers: Headers): number | undefined => {
+  const value = headers.get('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const errorFromResponse = (response: Response, body: string): TranslationError => {
+  const { status } = response;
+  const detail = body.trim().slice(0, 300);
+  if (status === 401 || status === 403) {
+    return new InvalidKeyError(`Invalid API Key: The server rejected the request (HTTP ${status}). ${detail}`);
+  }
+  if (status === 429) {
+    return new RateLimitedError(`RESOURCE_EXHAUSTED: The server is rate limiting requests (HTTP 429). ${detail}`, getRetryAfterMs(response.headers));
+  }
+  return new ServerError(`The translation server returned HTTP ${status}. ${detail}`, status, getRetryAfterMs(response.headers));
+};
+
+/**
+ * Yields the `data:` payloads of a server-sent events stream.
+ */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop()!;
+    for (const line of lines) {
+      if (line.startsWith('data:')) yield line.slice('data:'.length).trim();
+    }
+    if (done) return;
+  }
+}
+
+/**
+ * Creates a provider for any server implementing the OpenAI chat completions
+ * API, such as self-hosted vLLM or llama.cpp servers.
+ * @param config The server's base URL, the model to use and an optional API key.
+ * @param generationConfig Sampling settings for every request. The thinking budget is not part of the API and is ignored.
+ */
+export const createOpenAiCompatibleProvider = (
+  { baseUrl, model, apiKey }: OpenAiCompatibleConfig,
+  { temperature, topP, maxOutputTokens }: GenerationConfig = {},
+): TranslationProvider => {
+  const endpoint = `${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`;
+
+  const createChat = (options: ChatOptions = {}): ChatSession => {
+    const history: ChatMessage[] = [];
+
+    const sendMessageStream = async (message: string): Promise<AsyncGenerator<TranslationStreamChunk>> => {
+      const messages: ChatMessage[] = [...history, { role: 'user', content: message }];
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey.trim() ? { Authorization: `Bearer ${apiKey.trim()}` } : {}),
+          },
+          body: JSON.stringify({
+            model,
+            messages,
+            stream: true,
+            stream_options: { include_usage: true },
+            temperature,
+            top_p: topP,
+            max_tokens: maxOutputTokens,
+            ...(options.responseSchema
+              ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: options.responseSchema } } }
+              : {}),
+          }),
+        });
+      } catch (error) {
+        throw classifyOpenAiError(error);
+      }
+
+      if (!response.ok || !response.body) {
+        throw errorFromResponse(response, await response.text().catch(() => ''));
+      }
+      const body = response.body;
+
+      return (async function* () {
+        let reply = '';
+        try {
+          for await (const data of readServerSentEvents(body)) {
+            if (data === '[DONE]') break;
+            const payload = JSON.parse(data);
+            const text: string = payload.choices?.[0]?.delta?.content ?? '';
+            reply += text;
+            yield {
+              text,
+              usage: payload.usage
+                ? { promptTokens: payload.usage.prompt_tokens ?? 0, outputTokens: payload.usage.completion_tokens ?? 0 }
+                : undefined,
+              // `length` means the reply hit `max_tokens`.
+              truncated: payload.choices?.[0]?.finish_reason === 'length' || undefined,
+            };
+          }
+        } catch (error) {
+          throw classifyOpenAiError(error);
+        }
+        // Only completed exchanges become context for the next message.
+        history.push({ role: 'user', content: message }, { role: 'assistant', content: reply });
+      })();
+    };
+
+    return { sendMessageStream };
+  };
+
+  return { name: 'OpenAI-compatible', model, createChat, classifyError: classifyOpenAiError };
+};
@@ -0,0 +1,69 @@
+import { TranslationError } from './errors';
+
+export type ProviderType = 'gemini' | 'openai-compatible';
+
+export interface ProviderSettings {
+  type: ProviderType;
+  /** Base URL of an OpenAI-compatible server, e.g. `http://192.168.1.20:8000/v1`. */
+  baseUrl: string;
+  /** Model name sent to an OpenAI-compatible server. */
+  model: string;
+  /** Optional bearer token for an OpenAI-compatible server. */
+  apiKey: string;
+  /** Gemini model used when Gemini is selected. */
+  geminiModel: string;
+}
+
+/** Sampling settings sent with every request. Unset values keep the model's defaults. */
+export interface GenerationConfig {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  /** Tokens the model may spend thinking before answering; 0 turns thinking off, -1 lets the model decide. Gemini only. */
+  thinkingBudget?: number;
+}
+
+/** The model and settings a translation was produced with. */
+export interface RunSettings {
+  provider: string;
+  model: string;
+  generationConfig: GenerationConfig;
+  /** Whether cues were filled in from the translation memory; unset on runs before the option existed. */
+  useMemory?: boolean;
+}
+
+export interface TranslationUsage {
+  promptTokens: number;
+  outputTokens: number;
+}
+
+export interface TranslationStreamChunk {
+  text: string;
+  /** Token usage of the request so far. The last value reported is the total. */
+  usage?: TranslationUsage;
+  /** Set when the reply stopped at the output token limit, so its end is missing. */
+  truncated?: boolean;
+}
+
+export interface ChatOptions {
+  /** JSON schema the response must follow. When set, the model answers with JSON only. */
+  responseSchema?: Record<string, unknown>;
+}
+
+/**
+ * A conversation with the model. Each message is sent with the earlier
+ * messages of the same session as context.
+ */
+export interface ChatSession {
+  sendMessageStream(message: string): Promise<AsyncGenerator<TranslationStreamChunk>>;
+}
+
+export interface TranslationProvider {
+  readonly name: string;
+  readonly model: string;
+  createChat(options?: ChatOptions): ChatSession;
+  /** Counts the tokens of a text with the model's own tokenizer, where the backend offers one. */
+  countTokens?(text: string): Promise<number>;
+  /** Turns any error raised while talking to the backend into a user-facing `TranslationError`. */
+  classifyError(error: unknown): TranslationError;
+}
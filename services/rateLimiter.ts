@@ -0,0 +1,124 @@
+export interface RateLimits {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+export interface RateLimitSettings extends RateLimits {
+  /** How many translations run at the same time. */
+  concurrency: number;
+}
+
+/** Matches the free tier of Gemini 2.5 Flash. */
+export const DEFAULT_RATE_LIMIT_SETTINGS: RateLimitSettings = {
+  requestsPerMinute: 10,
+  tokensPerMinute: 250_000,
+  concurrency: 3,
+};
+
+export interface RateLimiter {
+  /**
+   * Waits until one request costing `tokens` fits in both budgets, then takes it.
+   * Callers are served in the order they asked.
+   * @param tokens Estimated tokens of the request (prompt and reply).
+   * @param isCancelled Polled while waiting; the wait ends early when it returns true.
+   * @returns False when the wait was cancelled, true once the capacity is taken.
+   */
+  acquire(tokens: number, isCancelled?: () => boolean): Promise<boolean>;
+  /** Corrects the token budget once the real usage of a request is known. */
+  settle(estimatedTokens: number, actualTokens: number): void;
+  /** Hands out no capacity for the given time, e.g. after the server reported a rate limit. */
+  pause(ms: number): void;
+}
+
+interface Bucket {
+  capacity: number;
+  level: number;
+}
+
+const MINUTE_MS = 60_000;
+/** Longest single sleep while waiting, so cancellation is noticed quickly. */
+const POLL_INTERVAL_MS = 500;
+/** Rough size of the instructions, example and glossary sent around the cues. */
+const PROMPT_OVERHEAD_TOKENS = 1_500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Waits for the given time, or less if cancelled meanwhile.
+ * @param ms How long to wait.
+ * @param isCancelled Checked between short sleeps; returning true ends the wait early.
+ * @returns False if the wait was cancelled.
+ */
+export const sleepUnlessCancelled = async (ms: number, isCancelled: () => boolean): Promise<boolean> => {
+  const until = Date.now() + ms;
+  while (Date.now() < until) {
+    if (isCancelled()) return false;
+    await sleep(Math.min(until - Date.now(), POLL_INTERVAL_MS));
+  }
+  return !isCancelled();
+};
+
+/**
+ * Estimates the tokens a translation request will use before it is sent.
+ * Assumes about four characters per token and a reply as long as the input.
+ * @param text The text being translated.
+ */
+export const estimateRequestTokens = (text: string): number =>
+  PROMPT_OVERHEAD_TOKENS + Math.ceil(text.length / 4) * 2;
+
+/**
+ * Creates a token-bucket limiter enforcing a requests-per-minute and a
+ * tokens-per-minute budget. Both buckets start full and refill continuously.
+ * @param limits The per-minute budgets.
+ */
+export const createRateLimiter = ({ requestsPerMinute, tokensPerMinute }: RateLimits): RateLimiter => {
+  const requests: Bucket = { capacity: Math.max(1, requestsPerMinute), level: Math.max(1, requestsPerMinute) };
+  const tokens: Bucket = { capacity: Math.max(1, tokensPerMinute), level: Math.max(1, tokensPerMinute) };
+  let updatedAt = Date.now();
+  let pausedUntil = 0;
+  let turn: Promise<unknown> = Promise.resolve();
+
+  const refill = (now: number) => {
+    const elapsed = now - updatedAt;
+    for (const bucket of [requests, tokens]) {
+      bucket.level = Math.min(bucket.capacity, bucket.level + elapsed * bucket.capacity / MINUTE_MS);
+    }
+    updatedAt = now;
+  };
+
+  const waitFor = (bucket: Bucket, amount: number) =>
+    bucket.level >= amount ? 0 : (amount - bucket.level) * MINUTE_MS / bucket.capacity;
+
+  const acquire = (requestTokens: number, isCancelled: () => boolean = () => false): Promise<boolean> => {
+    // A request bigger than the whole budget could never fit; it waits for a full bucket instead.
+    const cost = Math.min(requestTokens, tokens.capacity);
+    const result = turn.then(async () => {
+      while (!isCancelled()) {
+        const now = Date.now();
+        refill(now);
+        const wait = Math.max(pausedUntil - now, waitFor(requests, 1), waitFor(tokens, cost));
+        if (wait <= 0) {
+          requests.level -= 1;
+          tokens.level -= cost;
+          return true;
+        }
+        await sleep(Math.min(wait, POLL_INTERVAL_MS));
+      }
+      return false;
+    });
+    turn = result;
+    return result;
+  };
+
+  const settle = (estimatedTokens: number, actualTokens: number) => {
+    refill(Date.now());
+    // May go negative: overspending is paid back before the next request is let through.
+    tokens.level = Math.min(tokens.capacity, tokens.level + Math.min(estimatedTokens, tokens.capacity) - actualTokens);
+  };
+
+  const pause = (ms: number) => {
+    pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+  };
+
+  return { acquire, settle, pause };
+};
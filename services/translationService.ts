@@ -0,0 +1,445 @@
+import { TranslationProvider, TranslationStreamChunk, TranslationUsage } from './providers/types';
+import { ValidationError } from './providers/errors';
+import { Cue, serializeBlock, serializeCues } from '../utils/vttUtils';
+import { LanguagePair, getLanguage } from '../utils/languages';
+import { GlossaryEntry, createGlossaryEntry, formatGlossaryForPrompt } from '../utils/glossaryUtils';
+
+/**
+ * How cues are sent to the model: as raw WebVTT blocks, or as `{id, text}`
+ * pairs with structured JSON output so timings never leave the app.
+ */
+export type TranslationMode = 'vtt' | 'json';
+
+export interface TranslationOptions {
+  glossary: GlossaryEntry[];
+  languages: LanguagePair;
+  /**
+   * The cues around the ones being translated, shown read-only so names, terms
+   * and tone stay consistent. Every request is sent on its own, so this window
+   * is all the model knows about the rest of the file.
+   */
+  context?: TranslationContext;
+}
+
+/** A bounded window of cues around a request. */
+export interface TranslationContext {
+  /** Source cues right before the request that are already translated. */
+  sourceCues: Cue[];
+  /** The translations of `sourceCues`, in the same order. */
+  translatedCues: Cue[];
+  /** Source cues right after the request, not yet translated. */
+  followingCues: Cue[];
+}
+
+const getGlossarySection = (glossary: GlossaryEntry[]): string => {
+  const lines = formatGlossaryForPrompt(glossary);
+  return lines ? `
+GLOSSARY:
+Use these exact translations for the following terms. This is a strict, unbreakable rule. Notes in parentheses explain when or how a term is used.
+---
+${lines}
+---
+` : '';
+};
+
+const toContextLine = (text: string) => text.replace(/\n/g, ' / ');
+
+const getContextSection = (context: TranslationContext | undefined): string => {
+  if (!context) return '';
+  const previous = context.sourceCues.length > 0 ? `
+PREVIOUS CUES:
+The cues right before this chunk were already translated as shown below. Keep names, terms and tone consistent with them. Do NOT include them in your answer.
+---
+${context.sourceCues.map((cue, index) => `${toContextLine(cue.text)} => ${toContextLine(context.translatedCues[index]?.text ?? '')}`).join('\n')}
+---
+` : '';
+  const following = context.followingCues.length > 0 ? `
+FOLLOWING CUES:
+The cues right after this chunk are shown below for context only, e.g. to finish a sentence that continues there. Do NOT translate them or include them in your answer.
+---
+${context.followingCues.map(cue => toContextLine(cue.text)).join('\n')}
+---
+` : '';
+  return previous + following;
+};
+
+const getFullPrompt = (vttChunk: string, chunkCueCount: number, { glossary, languages, context }: TranslationOptions): string => {
+  const source = getLanguage(languages.source);
+  const target = getLanguage(languages.target);
+  
+  return `You are a professional subtitle translator. Your task is to translate the ${source.name} text in the provided VTT cues into natural, fluent ${target.name}.
+
+UNBREAKABLE RULES:
+1.  **PRESERVE TIMESTAMPS & STRUCTURE**: Timestamps (e.g., \`00:01:02.345 --> 00:01:03.456\`), cue numbers, and blank lines MUST be preserved exactly. DO NOT change them.
+2.  **PRESERVE TAGS**: All styling, class, speaker and language tags (like \`<i>\`, \`<b>\`, \`<c.yellow>\`, \`<v Speaker Name>\`, \`<lang en>\`, \`<ruby>\`), karaoke timestamps (like \`<00:00:01.500>\`) and formatting placeholders in curly braces (like \`{1}\`) MUST be copied exactly as they appear, next to the words they mark.
+3.  **1-to-1 CUE MAPPING**: The input chunk below contains exactly ${chunkCueCount} cue blocks. Your response MUST contain the exact same number of translated cue blocks. Do not merge, split, add, or omit any cues.
+4.  **OUTPUT-ONLY**: Your entire response MUST ONLY be the translated VTT cues. Do not include any other text, greetings, explanations, apologies, or code markers like \`\`\`vtt.
+${getGlossarySection(glossary)}
+EXAMPLE:
+---
+INPUT:
+1
+00:00:01.000 --> 00:00:03.500
+${source.example[0]}
+
+2
+00:00:04.100 --> 00:00:06.200
+${source.example[1]}
+
+---
+YOUR EXPECTED OUTPUT:
+1
+00:00:01.000 --> 00:00:03.500
+${target.example[0]}
+
+2
+00:00:04.100 --> 00:00:06.200
+${target.example[1]}
+---
+${getContextSection(context)}
+Now, translate the following VTT chunk following all unbreakable rules:
+---
+${vttChunk}
+`;
+};
+
+const getJsonPrompt = (cueJson: string, chunkCueCount: number, { glossary, languages, context }: TranslationOptions): string => {
+  const source = getLanguage(languages.source);
+  const target = getLanguage(languages.target);
+  const toExampleJson = (lines: [string, string]) =>
+    JSON.stringify(lines.map((text, index) => ({ id: index + 1, text })));
+
+  return `You are a professional subtitle translator. Your task is to translate the ${source.name} \`text\` of each subtitle cue in the JSON array below into natural, fluent ${target.name}.
+
+UNBREAKABLE RULES:
+1.  **SAME IDS**: The input contains exactly ${chunkCueCount} cues. Return exactly one object per input cue, with the same \`id\`. Do not merge, split, add, or omit any cues.
+2.  **PRESERVE TAGS**: All styling, class, speaker and language tags (like \`<i>\`, \`<b>\`, \`<c.yellow>\`, \`<v Speaker Name>\`, \`<lang en>\`, \`<ruby>\`), karaoke timestamps (like \`<00:00:01.500>\`) and formatting placeholders in curly braces (like \`{1}\`) MUST be copied exactly as they appear, next to the words they mark.
+3.  **LINE BREAKS**: Keep a line break (\`\\n\`) wherever the source text has one, unless the translation reads better on a single line.
+${getGlossarySection(glossary)}
+EXAMPLE:
+---
+INPUT:
+${toExampleJson(source.example)}
+---
+YOUR EXPECTED OUTPUT:
+${toExampleJson(target.example)}
+---
+${getContextSection(context)}
+Translate these cues:
+${cueJson}
+`;
+};
+
+const CUE_TRANSLATIONS_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      text: { type: 'string' },
+    },
+    required: ['id', 'text'],
+  },
+};
+
+/**
+ * Translates cues sent as WebVTT blocks. Each call is a new conversation, so a
+ * request looks the same whether it is the first, a later or a retried one.
+ * The streamed response is WebVTT; align it with the sent cues once it is complete.
+ */
+export const translateCuesAsVtt = (
+  cues: Cue[],
+  provider: TranslationProvider,
+  options: TranslationOptions,
+): Promise<AsyncGenerator<TranslationStreamChunk>> =>
+  provider.createChat().sendMessageStream(getFullPrompt(serializeCues(cues), cues.length, options));
+
+/**
+ * Translates cues using structured output. The model only receives `{id, text}`
+ * pairs and must answer with the same ids, so it never sees or rewrites timestamps.
+ * Like `translateCuesAsVtt`, each call is a new conversation.
+ * The streamed response is JSON; use `parseCueTranslations` once it is complete.
+ */
+export const translateCuesAsJson = (
+  cues: Cue[],
+  provider: TranslationProvider,
+  options: TranslationOptions,
+): Promise<AsyncGenerator<TranslationStreamChunk>> => {
+  const cueJson = JSON.stringify(cues.map((cue, index) => ({ id: index + 1, text: cue.text })), null, 2);
+  return provider.createChat({ responseSchema: CUE_TRANSLATIONS_SCHEMA }).sendMessageStream(getJsonPrompt(cueJson, cues.length, options));
+};
+
+/**
+ * Reads a structured-output response back into one translated text per cue.
+ * @param responseText The complete JSON response from `translateCuesAsJson`.
+ * @param cueCount The number of cues that were sent.
+ * @returns The translated texts, in the order of the cues that were sent; undefined
+ *   for cues whose id was missing, duplicated or had empty text.
+ */
+export const parseCueTranslations = (responseText: string, cueCount: number): (string | undefined)[] => {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(responseText);
+  } catch {
+    throw new ValidationError('Chunk validation failed. The model returned malformed JSON.');
+  }
+  if (!Array.isArray(entries)) {
+    throw new ValidationError('Chunk validation failed. The model did not return a JSON array.');
+  }
+
+  const textsById = new Map<number, string[]>();
+  for (const entry of entries) {
+    if (entry && typeof entry.id === 'number' && typeof entry.text === 'string') {
+      textsById.set(entry.id, [...(textsById.get(entry.id) ?? []), entry.text]);
+    }
+  }
+
+  return Array.from({ length: cueCount }, (_, index) => {
+    const texts = textsById.get(index + 1);
+    // A duplicated id is ambiguous, so that cue is requested again.
+    if (texts?.length !== 1 || !texts[0].trim()) return undefined;
+    // A blank line would end the cue when the track is written out, so it is collapsed.
+    return texts[0].trim().replace(/\n\s*\n/g, '\n');
+  });
+};
+
+/** Characters per token assumed when the provider cannot count tokens. */
+const CHARACTERS_PER_TOKEN = 4;
+/** Upper bound on the text sent to the token counter; the ratio it gives is applied to the rest. */
+const MAX_COUNTED_CHARACTERS = 100_000;
+
+/**
+ * Works out how many tokens each cue costs when sent for translation. The model's
+ * tokenizer counts the cues of the file in one request, up to a fixed length, and
+ * each cue is sized by the resulting tokens per character, so a file does not need
+ * a request per cue. Without a provider, about four characters per token are assumed.
+ * @param cues The cues to size.
+ * @param provider The provider whose tokenizer to use, if it has one.
+ * @returns The tokens of each cue, in order.
+ */
+export const countCueTokens = async (cues: Cue[], provider?: TranslationProvider): Promise<number[]> => {
+  // Blocks are sent separated by a blank line, which is counted with each block.
+  const blocks = cues.map(cue => `${serializeBlock(cue)}\n\n`);
+  let tokensPerCharacter = 1 / CHARACTERS_PER_TOKEN;
+  const sample = blocks.join('').slice(0, MAX_COUNTED_CHARACTERS);
+  if (provider?.countTokens && sample) {
+    tokensPerCharacter = await provider.countTokens(sample) / sample.length;
+  }
+  return blocks.map(block => Math.max(1, Math.ceil(block.length * tokensPerCharacter)));
+};
+
+/** A reviewer's correction of one draft cue. */
+export interface CueCorrection {
+  /** Index of the cue among the cues that were reviewed. */
+  index: number;
+  text: string;
+  /** Why the draft was changed, in a few words. */
+  reason: string;
+}
+
+const CUE_CORRECTIONS_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      text: { type: 'string' },
+      reason: { type: 'string' },
+    },
+    required: ['id', 'text', 'reason'],
+  },
+};
+
+const getReviewPrompt = (cueJson: string, { glossary, languages }: Pick<TranslationOptions, 'glossary' | 'languages'>): string => {
+  const source = getLanguage(languages.source);
+  const target = getLanguage(languages.target);
+  return `You are a senior subtitle editor reviewing a draft translation from ${source.name} to ${target.name}.
+
+Each cue below has its \`id\`, the ${source.name} \`source\` and the ${target.name} \`draft\`. Correct drafts that are mistranslated, too literal, unnatural or inconsistent with each other. Leave good drafts alone; do not rewrite for style alone.
+
+RULES:
+1.  Return ONLY the cues you changed, as objects with the \`id\`, the corrected \`text\` and a short \`reason\` in English (a few words).
+2.  Keep all tags (like \`<i>\`, \`<c.yellow>\`, \`<v Speaker Name>\`), karaoke timestamps and formatting placeholders in curly braces exactly as in the draft.
+3.  Keep line breaks (\`\\n\`) where the draft has them, unless the correction reads better otherwise.
+4.  Return an empty array if every draft is fine.
+${getGlossarySection(glossary)}
+Cues to review:
+${cueJson}
+`;
+};
+
+/**
+ * Reads a review response back into corrections. Corrections for unknown ids,
+ * empty corrections and corrections identical to the draft are skipped.
+ * @param responseText The complete JSON response.
+ * @param draftTexts The draft texts that were reviewed, in order.
+ * @returns The corrections, one per changed cue.
+ */
+export const parseCueCorrections = (responseText: string, draftTexts: string[]): CueCorrection[] => {
+  let items: unknown;
+  try {
+    items = JSON.parse(responseText);
+  } catch {
+    throw new ValidationError('Review failed. The model returned malformed JSON.');
+  }
+  if (!Array.isArray(items)) {
+    throw new ValidationError('Review failed. The model did not return a JSON array.');
+  }
+
+  const corrections = new Map<number, CueCorrection>();
+  for (const item of items) {
+    if (!item || typeof item.id !== 'number' || typeof item.text !== 'string') continue;
+    const index = item.id - 1;
+    const text = item.text.trim().replace(/\n\s*\n/g, '\n');
+    if (index < 0 || index >= draftTexts.length || !text || text === draftTexts[index]) continue;
+    corrections.set(index, { index, text, reason: typeof item.reason === 'string' ? item.reason.trim() : '' });
+  }
+  return [...corrections.values()].sort((a, b) => a.index - b.index);
+};
+
+/**
+ * Asks the model to review a translated chunk against its source, in a new chat.
+ * The model only proposes corrections; nothing is applied here.
+ * @param sourceCues The source cues.
+ * @param draftCues The translated cues, in the same order.
+ * @param provider The provider to ask.
+ * @param options The glossary and language pair of the translation.
+ * @returns The corrections and the token usage of the request.
+ */
+export const reviewTranslation = async (
+  sourceCues: Cue[],
+  draftCues: Cue[],
+  provider: TranslationProvider,
+  options: Pick<TranslationOptions, 'glossary' | 'languages'>,
+): Promise<{ corrections: CueCorrection[]; usage?: TranslationUsage }> => {
+  const draftTexts = draftCues.map(cue => cue.text);
+  const cueJson = JSON.stringify(sourceCues.map((cue, index) => ({ id: index + 1, source: cue.text, draft: draftTexts[index] })), null, 2);
+  const chat = provider.createChat({ responseSchema: CUE_CORRECTIONS_SCHEMA });
+  const stream = await chat.sendMessageStream(getReviewPrompt(cueJson, options));
+  let responseText = '';
+  let usage: TranslationUsage | undefined;
+  for await (const chunk of stream) {
+    responseText += chunk.text;
+    if (chunk.usage) usage = chunk.usage;
+  }
+  return { corrections: parseCueCorrections(responseText, draftTexts), usage };
+};
+
+/** Kinds of terms the glossary pre-pass looks for; the kind becomes the entry's note. */
+const GLOSSARY_TERM_CATEGORIES = ['character', 'place', 'organization', 'jargon', 'other'];
+
+/** Upper bound on the subtitle text sent to the glossary pre-pass, roughly 30k tokens. */
+const MAX_EXTRACTION_CHARACTERS = 120_000;
+
+const GLOSSARY_TERMS_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      term: { type: 'string' },
+      translation: { type: 'string' },
+      category: { type: 'string', enum: GLOSSARY_TERM_CATEGORIES },
+    },
+    required: ['term', 'translation', 'category'],
+  },
+};
+
+const getGlossaryExtractionPrompt = (lines: string, languages: LanguagePair, knownTerms: string[]): string => {
+  const source = getLanguage(languages.source);
+  const target = getLanguage(languages.target);
+  const knownSection = knownTerms.length > 0 ? `
+These terms are already in the glossary; do NOT list them again: ${knownTerms.join(', ')}
+` : '';
+  return `You are preparing a translation glossary for the subtitles of a TV series or film, from ${source.name} to ${target.name}.
+
+Read the subtitle lines below and list the terms that must be translated the same way every time:
+- character names and nicknames (category "character")
+- places, ships and other named things (category "place")
+- organizations, teams and groups (category "organization")
+- recurring jargon, catchphrases or invented words (category "jargon")
+Only list terms that occur more than once or clearly matter to the story. Skip ordinary words.
+Give each term exactly as it appears in the lines, and propose the ${target.name} translation a professional subtitler would use. Names that are normally kept as they are may keep their original spelling.
+${knownSection}
+Return a JSON array of objects with "term", "translation" and "category".
+
+Subtitle lines:
+---
+${lines}
+---
+`;
+};
+
+/**
+ * Reads a glossary pre-pass response back into glossary entries.
+ * Character, place and organization names only match with their capitalization,
+ * so names that are also ordinary words (e.g. "Will") are not flagged in ordinary use.
+ * @param responseText The complete JSON response.
+ * @returns The proposed entries, with the category as note; malformed items are skipped.
+ */
+export const parseGlossaryTerms = (responseText: string): GlossaryEntry[] => {
+  let items: unknown;
+  try {
+    items = JSON.parse(responseText);
+  } catch {
+    throw new ValidationError('Glossary extraction failed. The model returned malformed JSON.');
+  }
+  if (!Array.isArray(items)) {
+    throw new ValidationError('Glossary extraction failed. The model did not return a JSON array.');
+  }
+  return items.flatMap(item => {
+    if (!item || typeof item.term !== 'string' || typeof item.translation !== 'string' || !item.term.trim() || !item.translation.trim()) {
+      return [];
+    }
+    const category = typeof item.category === 'string' ? item.category : 'other';
+    return [{
+      ...createGlossaryEntry(item.term.trim(), item.translation.trim()),
+      caseSensitive: category !== 'jargon' && category !== 'other',
+      note: category,
+    }];
+  });
+};
+
+/**
+ * Asks the model for recurring names and terms across subtitle files, with a
+ * proposed translation for each. Repeated lines are sent once, and the text is
+ * cut off after a fixed budget, so very large batches are only partly read.
+ * @param texts The cue texts of all files.
+ * @param provider The provider to ask.
+ * @param languages The language pair the translations are proposed for.
+ * @param glossary Entries already known; their terms are not proposed again.
+ * @returns The proposed entries and the token usage of the request.
+ */
+export const extractGlossaryTerms = async (
+  texts: string[],
+  provider: TranslationProvider,
+  languages: LanguagePair,
+  glossary: GlossaryEntry[],
+): Promise<{ entries: GlossaryEntry[]; usage?: TranslationUsage }> => {
+  const lines: string[] = [];
+  let length = 0;
+  for (const line of new Set(texts.map(text => toContextLine(text.trim())).filter(Boolean))) {
+    if (length + line.length > MAX_EXTRACTION_CHARACTERS) break;
+    lines.push(line);
+    length += line.length + 1;
+  }
+
+  const knownTerms = glossary.map(entry => entry.term.trim()).filter(Boolean);
+  const chat = provider.createChat({ responseSchema: GLOSSARY_TERMS_SCHEMA });
+  const stream = await chat.sendMessageStream(getGlossaryExtractionPrompt(lines.join('\n'), languages, knownTerms));
+  let responseText = '';
+  let usage: TranslationUsage | undefined;
+  for await (const chunk of stream) {
+    responseText += chunk.text;
+    if (chunk.usage) usage = chunk.usage;
+  }
+
+  const known = new Set(knownTerms.map(term => term.toLowerCase()));
+  const seen = new Set<string>();
+  const entries = parseGlossaryTerms(responseText).filter(entry => {
+    const key = entry.term.toLowerCase();
+    if (known.has(key) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { entries, usage };
+};
@@ -0,0 +1,196 @@
+import { Cue, VttDocument } from './vttUtils';
+
+export interface AssDialogue {
+  /** Index of the `Dialogue:` line within the document's lines. */
+  lineIndex: number;
+  startTime: number;
+  endTime: number;
+  /** Everything on the line before the Text field, e.g. `Dialogue: 0,0:00:01.00,...,,`. */
+  fieldsPrefix: string;
+  /** Override blocks at the start of the text, such as `{\an8}`, kept out of translation. */
+  leadingOverrides: string;
+  /** Override blocks at the end of the text. */
+  trailingOverrides: string;
+  /** Override blocks inside the text, such as karaoke `{\k30}`, in order. */
+  inlineOverrides: string[];
+  /** The dialogue text converted to WebVTT cue text. */
+  text: string;
+}
+
+export interface AssDocument {
+  bom: boolean;
+  lineEnding: '\n' | '\r\n';
+  lines: string[];
+  dialogues: AssDialogue[];
+}
+
+const ASS_TIMESTAMP_PATTERN = /^(\d+):(\d{1,2}):(\d{1,2})\.(\d{1,3})$/;
+const LEADING_OVERRIDES_PATTERN = /^(?:\{[^}]*\})+/;
+const TRAILING_OVERRIDES_PATTERN = /(?:\{[^}]*\})+$/;
+const OVERRIDE_BLOCK_PATTERN = /\{[^}]*\}/g;
+const PLACEHOLDER_PATTERN = /\{(\d+)\}/g;
+const DEFAULT_EVENT_FORMAT = ['Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'];
+
+const HARD_SPACE = '\u00A0';
+
+// Simple style toggles are shown to the model as HTML-like tags it already knows how to keep.
+const INLINE_STYLE_TAGS: Record<string, string> = {
+  '{\\i1}': '<i>', '{\\i0}': '</i>', '{\\i}': '</i>',
+  '{\\b1}': '<b>', '{\\b0}': '</b>', '{\\b}': '</b>',
+  '{\\u1}': '<u>', '{\\u0}': '</u>', '{\\u}': '</u>',
+};
+
+const INLINE_STYLE_OVERRIDES: Record<string, string> = {
+  '<i>': '{\\i1}', '</i>': '{\\i0}',
+  '<b>': '{\\b1}', '</b>': '{\\b0}',
+  '<u>': '{\\u1}', '</u>': '{\\u0}',
+};
+
+/**
+ * Parses an ASS timestamp (`h:mm:ss.cc`).
+ * @param timestamp The timestamp string.
+ * @returns The time in milliseconds, or null if the timestamp is malformed.
+ */
+export const parseAssTimestamp = (timestamp: string): number | null => {
+  const match = ASS_TIMESTAMP_PATTERN.exec(timestamp.trim());
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + Number(fraction.padEnd(3, '0'));
+};
+
+/**
+ * Converts ASS dialogue text to cue text. Other override blocks inside the text are
+ * replaced by numbered placeholders such as `{1}`, so the model never sees their codes.
+ */
+const assTextToCueText = (assText: string): { text: string; inlineOverrides: string[] } => {
+  // Blank lines would end a WebVTT cue early, so consecutive breaks are collapsed.
+  let text = assText.replace(/\\[Nn]/g, '\n').replace(/\n{2,}/g, '\n').replace(/\\h/g, HARD_SPACE);
+  for (const [override, tag] of Object.entries(INLINE_STYLE_TAGS)) {
+    text = text.split(override).join(tag);
+  }
+  const inlineOverrides: string[] = [];
+  text = text.replace(OVERRIDE_BLOCK_PATTERN, override => `{${inlineOverrides.push(override)}}`);
+  return { text, inlineOverrides };
+};
+
+const cueTextToAssText = (cueText: string, inlineOverrides: string[]): string => {
+  let text = cueText.trim();
+  for (const [tag, override] of Object.entries(INLINE_STYLE_OVERRIDES)) {
+    text = text.split(tag).join(override);
+  }
+  // A placeholder the source line does not have is dropped rather than written as an empty block.
+  text = text.replace(PLACEHOLDER_PATTERN, (_, number: string) => inlineOverrides[Number(number) - 1] ?? '');
+  return text.replace(/\r?\n/g, '\\N').split(HARD_SPACE).join('\\h');
+};
+
+/**
+ * Removes the placeholders that stand for ASS override blocks, for output formats that cannot hold them.
+ * @param text The cue text.
+ * @returns The text without placeholders.
+ */
+export const removeOverridePlaceholders = (text: string): string => text.replace(PLACEHOLDER_PATTERN, '');
+
+/**
+ * Parses ASS/SSA content. Only `Dialogue:` lines in the `[Events]` section are
+ * extracted; every other line is kept verbatim for serialization.
+ * @param assContent The raw string content of the .ass/.ssa file.
+ * @returns The parsed document.
+ */
+export const parseAss = (assContent: string): AssDocument => {
+  const bom = assContent.startsWith('\uFEFF');
+  const withoutBom = bom ? assContent.slice(1) : assContent;
+  const lineEnding = withoutBom.includes('\r\n') ? '\r\n' : '\n';
+  const lines = withoutBom.split(/\r?\n/);
+
+  const dialogues: AssDialogue[] = [];
+  let inEvents = false;
+  let eventFormat = DEFAULT_EVENT_FORMAT;
+
+  lines.forEach((line, lineIndex) => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('[')) {
+      inEvents = trimmed.toLowerCase() === '[events]';
+      return;
+    }
+    if (!inEvents) return;
+
+    if (/^Format\s*:/i.test(trimmed)) {
+      eventFormat = trimmed.slice(trimmed.indexOf(':') + 1).split(',').map(field => field.trim());
+      return;
+    }
+
+    const match = /^(Dialogue\s*:\s*)(.*)$/i.exec(line);
+    if (!match) return;
+
+    // The Text field is always last and may itself contain commas.
+    const fields: string[] = [];
+    let rest = match[2];
+    for (let i = 0; i < eventFormat.length - 1; i++) {
+      const commaIndex = rest.indexOf(',');
+      if (commaIndex === -1) return;
+      fields.push(rest.slice(0, commaIndex));
+      rest = rest.slice(commaIndex + 1);
+    }
+
+    const startTime = parseAssTimestamp(fields[eventFormat.indexOf('Start')] ?? '');
+    const endTime = parseAssTimestamp(fields[eventFormat.indexOf('End')] ?? '');
+    if (startTime === null || endTime === null) return;
+
+    const leadingOverrides = LEADING_OVERRIDES_PATTERN.exec(rest)?.[0] ?? '';
+    const afterLeading = rest.slice(leadingOverrides.length);
+    const trailingOverrides = TRAILING_OVERRIDES_PATTERN.exec(afterLeading)?.[0] ?? '';
+    const body = afterLeading.slice(0, afterLeading.length - trailingOverrides.length);
+    if (!body.trim()) return;
+
+    dialogues.push({
+      lineIndex,
+      startTime,
+      endTime,
+      fieldsPrefix: line.slice(0, line.length - rest.length),
+      leadingOverrides,
+      trailingOverrides,
+      ...assTextToCueText(body),
+    });
+  });
+
+  return { bom, lineEnding, lines, dialogues };
+};
+
+/**
+ * Converts the dialogue lines of an ASS document into the WebVTT cue model.
+ * @param document The parsed ASS document.
+ * @returns A WebVTT document with one cue per dialogue line.
+ */
+export const assToVtt = (document: AssDocument): VttDocument => {
+  const cues: Cue[] = document.dialogues.map(dialogue => ({
+    type: 'cue',
+    leading: '\n\n',
+    startTime: dialogue.startTime,
+    endTime: dialogue.endTime,
+    settings: {},
+    text: dialogue.text,
+  }));
+  return { bom: false, lineEnding: '\n', header: 'WEBVTT', blocks: cues, trailing: '\n' };
+};
+
+/**
+ * Writes an ASS document back with translated dialogue text. Styles, layers,
+ * margins, effects and override blocks are kept exactly as in the source.
+ * @param document The parsed source document.
+ * @param cues The translated cues, one per dialogue line, in order.
+ * @returns The ASS content.
+ */
+export const serializeAss = (document: AssDocument, cues: Cue[]): string => {
+  if (cues.length !== document.dialogues.length) {
+    throw new Error(`Cannot write ${cues.length} cues into ${document.dialogues.length} dialogue lines.`);
+  }
+  const lines = [...document.lines];
+  document.dialogues.forEach((dialogue, index) => {
+    lines[dialogue.lineIndex] =
+      dialogue.fieldsPrefix +
+      dialogue.leadingOverrides +
+      cueTextToAssText(cues[index].text, dialogue.inlineOverrides) +
+      dialogue.trailingOverrides;
+  });
+  return (document.bom ? '\uFEFF' : '') + lines.join(document.lineEnding);
+};
@@ -0,0 +1,101 @@
+import { Cue } from './vttUtils';
+
+/** A run of source cues that is translated, saved and resumed as one unit. */
+export interface TrackChunk {
+  /** Index of the chunk's first cue in the source file. */
+  start: number;
+  cues: Cue[];
+}
+
+export interface ChunkingOptions {
+  /** Tokens of cue text to send per request; a single larger cue gets a chunk of its own. */
+  maxTokens: number;
+  /** Upper bound on the cues to translate per request, however short they are. */
+  maxCues: number;
+}
+
+/** A chunk is not closed before it holds this share of the budget, unless the file ends. */
+const MIN_FILL = 0.5;
+/** Text that ends a sentence, allowing for closing quotes, brackets and music notes. */
+const SENTENCE_END_PATTERN = /[.!?…。！？♪]["'”’»)\]]*$/;
+/** Text that trails off into the next cue, e.g. `I was going to...` followed by `...tell you`. */
+const TRAILING_ELLIPSIS_PATTERN = /(?:\.\.\.|…)$/;
+
+const getPlainText = (text: string): string => text.replace(/<[^>]*>/g, '').replace(/\{[^}]*\}/g, '').trim();
+
+/**
+ * Whether the sentence of a cue goes on in the next cue, so the two should be translated together.
+ * A cue that ends without sentence punctuation, or trails off into a cue starting with an ellipsis
+ * or a lowercase letter, continues.
+ */
+const continuesIntoNext = (cue: Cue, next: Cue): boolean => {
+  const text = getPlainText(cue.text);
+  const nextText = getPlainText(next.text);
+  if (!text || !nextText) return false;
+  if (!SENTENCE_END_PATTERN.test(text)) return true;
+  return TRAILING_ELLIPSIS_PATTERN.test(text) && /^(?:\.\.\.|…|\p{Ll})/u.test(nextText);
+};
+
+/**
+ * Splits the cues of a file into chunks that fit a token budget. Within the budget,
+ * a chunk ends where the sentence ends and the pause before the next cue is longest,
+ * which is usually a scene change. Cues whose translation is already known cost
+ * nothing and travel with their neighbors, so chunks stay contiguous and cover the file.
+ * When a sentence runs past the whole budget without ending, it is split at its longest pause
+ * once the chunk holds at least half the budget.
+ * @param cues The source cues.
+ * @param knownTexts The known translation of each cue, or undefined.
+ * @param tokenCounts The tokens each cue costs when sent.
+ * @param options The budget per chunk.
+ * @returns The chunks, in order.
+ */
+export const groupCuesByTokenBudget = (
+  cues: Cue[],
+  knownTexts: (string | undefined)[],
+  tokenCounts: number[],
+  { maxTokens, maxCues }: ChunkingOptions,
+): TrackChunk[] => {
+  const chunks: TrackChunk[] = [];
+  let start = 0;
+
+  while (start < cues.length) {
+    // Each candidate is a cue the chunk could end after, with the pause that follows it.
+    const candidates: { end: number; gap: number; sentenceEnds: boolean; filled: boolean }[] = [];
+    let tokens = 0;
+    let pendingCount = 0;
+    let end = start;
+    for (; end < cues.length; end++) {
+      const isPending = knownTexts[end] === undefined;
+      const cost = isPending ? tokenCounts[end] : 0;
+      if (pendingCount > 0 && isPending && (tokens + cost > maxTokens || pendingCount === maxCues)) break;
+      tokens += cost;
+      if (isPending) pendingCount++;
+      const next = cues[end + 1];
+      if (next) {
+        candidates.push({
+          end,
+          gap: next.startTime - cues[end].endTime,
+          sentenceEnds: !continuesIntoNext(cues[end], next),
+          filled: tokens >= maxTokens * MIN_FILL || pendingCount >= maxCues * MIN_FILL,
+        });
+      }
+    }
+
+    if (end >= cues.length) {
+      chunks.push({ start, cues: cues.slice(start) });
+      break;
+    }
+
+    const pickLongestGap = (options: typeof candidates) =>
+      options.reduce<(typeof candidates)[number] | undefined>((best, candidate) => (!best || candidate.gap >= best.gap ? candidate : best), undefined);
+    // Without sentence ends, as in lyrics or automatic captions, the chunk is still filled before it is cut.
+    const chosen = pickLongestGap(candidates.filter(candidate => candidate.sentenceEnds && candidate.filled))
+      ?? pickLongestGap(candidates.filter(candidate => candidate.sentenceEnds))
+      ?? pickLongestGap(candidates.filter(candidate => candidate.filled))
+      ?? pickLongestGap(candidates);
+    const chunkEnd = chosen?.end ?? end - 1;
+    chunks.push({ start, cues: cues.slice(start, chunkEnd + 1) });
+    start = chunkEnd + 1;
+  }
+  return chunks;
+};
@@ -0,0 +1,57 @@
+import { Cue } from './vttUtils';
+
+const timingKey = (cue: Cue): string => `${cue.startTime}-${cue.endTime}`;
+
+const covers = (outer: Cue, inner: Cue): boolean =>
+  outer.startTime <= inner.startTime && outer.endTime >= inner.endTime;
+
+const groupBy = (cues: Cue[], getKey: (cue: Cue) => string | undefined): Map<string, Cue[]> => {
+  const groups = new Map<string, Cue[]>();
+  for (const cue of cues) {
+    const key = getKey(cue);
+    if (key === undefined) continue;
+    const group = groups.get(key);
+    if (group) group.push(cue);
+    else groups.set(key, [cue]);
+  }
+  return groups;
+};
+
+/**
+ * Matches cues returned by the model to the source cues they translate.
+ * Cues are matched by their exact timing first and by identifier when the
+ * timing was altered. A source cue is left unmatched when its translation is
+ * missing, empty, duplicated, or merged with a neighbour (a merged cue spans
+ * two source timings and so matches neither).
+ * @param sourceCues The cues that were sent for translation.
+ * @param translatedCues The cues parsed from the model's response.
+ * @returns One entry per source cue: the translated text, or undefined if the cue needs to be requested again.
+ */
+export const alignTranslatedCues = (sourceCues: Cue[], translatedCues: Cue[]): (string | undefined)[] => {
+  const translatedByTiming = groupBy(translatedCues, timingKey);
+  const translatedByIdentifier = groupBy(translatedCues, cue => cue.identifier?.trim() || undefined);
+  const sourceByTiming = groupBy(sourceCues, timingKey);
+  const seenTimings = new Map<string, number>();
+
+  return sourceCues.map(cue => {
+    const key = timingKey(cue);
+    const occurrence = seenTimings.get(key) ?? 0;
+    seenTimings.set(key, occurrence + 1);
+    if (!cue.text.trim()) return cue.text;
+
+    let match: Cue | undefined;
+    const timingMatches = translatedByTiming.get(key);
+    if (timingMatches) {
+      // Source cues that share a timing are paired in order, as long as none was dropped or duplicated.
+      if (timingMatches.length === sourceByTiming.get(key)!.length) match = timingMatches[occurrence];
+    } else if (cue.identifier?.trim()) {
+      const identifierMatches = translatedByIdentifier.get(cue.identifier.trim());
+      // A cue whose span covers another source cue was merged, even if it kept this cue's identifier.
+      const candidate = identifierMatches?.length === 1 ? identifierMatches[0] : undefined;
+      if (candidate && !sourceCues.some(other => other !== cue && covers(candidate, other))) match = candidate;
+    }
+
+    const text = match?.text.trim();
+    return text ? text : undefined;
+  });
+};
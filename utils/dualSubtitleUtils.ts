@@ -0,0 +1,92 @@
+import { Cue, StyleBlock, VttDocument, getCues, isCue, parseVtt, replaceCues, serializeVtt } from './vttUtils';
+import { serializeSrt } from './srtUtils';
+import { SubtitleFormat } from './subtitleFormats';
+
+/** Which line of a bilingual cue comes first. */
+export type DualSubtitleOrder = 'source-first' | 'translation-first';
+
+/**
+ * How the second line of a bilingual cue is set apart: not at all, in italics,
+ * or with a `secondary` cue class styled by a STYLE block (WebVTT only).
+ */
+export type SecondaryLineStyle = 'none' | 'italic' | 'class';
+
+export interface DualSubtitleOptions {
+  /** Whether downloads merge the source and the translation into one file. */
+  enabled: boolean;
+  order: DualSubtitleOrder;
+  secondaryStyle: SecondaryLineStyle;
+}
+
+export const DEFAULT_DUAL_SUBTITLE_OPTIONS: DualSubtitleOptions = {
+  enabled: false,
+  order: 'source-first',
+  secondaryStyle: 'italic',
+};
+
+/** Whether bilingual files can be written in the given format; only WebVTT and SubRip are supported. */
+export const supportsDualSubtitles = (format: SubtitleFormat): boolean => format === 'vtt' || format === 'srt';
+
+const SECONDARY_CLASS_CSS = `::cue(.secondary) {
+  color: #d0d0d0;
+  font-size: 80%;
+}`;
+
+const styleSecondaryText = (text: string, style: SecondaryLineStyle): string => {
+  if (style === 'none') return text;
+  const tag = style === 'italic' ? 'i' : 'c.secondary';
+  const closingTag = style === 'italic' ? 'i' : 'c';
+  // Each line is wrapped on its own, since some players reset styling at line breaks.
+  return text.split('\n').map(line => `<${tag}>${line}</${closingTag}>`).join('\n');
+};
+
+/**
+ * Merges each translated cue with its source cue into one two-language cue.
+ * @param translatedCues The translated cues.
+ * @param sourceCues The source cues, in the same order.
+ * @param options The line order and the styling of the second line.
+ * @returns The merged cues, timed like the translation.
+ */
+export const mergeDualCues = (translatedCues: Cue[], sourceCues: Cue[], { order, secondaryStyle }: DualSubtitleOptions): Cue[] =>
+  translatedCues.map((cue, index) => {
+    const sourceText = sourceCues[index]?.text ?? '';
+    const [primary, secondary] = order === 'source-first' ? [sourceText, cue.text] : [cue.text, sourceText];
+    const lines = [primary, secondary && styleSecondaryText(secondary, secondaryStyle)].filter(Boolean);
+    return { ...cue, text: lines.join('\n') };
+  });
+
+/**
+ * Builds a bilingual WebVTT document from a translated track and its source.
+ * With the `class` style, a STYLE block for `::cue(.secondary)` is placed before the first cue.
+ * @param translatedVtt The translated WebVTT content.
+ * @param sourceCues The source cues, in the same order.
+ * @param options The line order and the styling of the second line.
+ * @returns The bilingual WebVTT content.
+ */
+export const createDualVtt = (translatedVtt: string, sourceCues: Cue[], options: DualSubtitleOptions): string => {
+  const translatedDocument = parseVtt(translatedVtt);
+  const merged = replaceCues(translatedDocument, mergeDualCues(getCues(translatedDocument), sourceCues, options));
+  const document: VttDocument = { ...merged, header: merged.header || 'WEBVTT' };
+
+  if (options.secondaryStyle === 'class') {
+    const firstCueIndex = document.blocks.findIndex(isCue);
+    const styleBlock: StyleBlock = { type: 'style', leading: '', css: SECONDARY_CLASS_CSS };
+    const blocks = [...document.blocks];
+    blocks.splice(firstCueIndex === -1 ? blocks.length : firstCueIndex, 0, styleBlock);
+    return serializeVtt({ ...document, blocks });
+  }
+  return serializeVtt(document);
+};
+
+/**
+ * Builds a bilingual SubRip file from a translated track and its source.
+ * SubRip has no cue classes, so the `class` style falls back to italics.
+ * @param translatedVtt The translated WebVTT content.
+ * @param sourceCues The source cues, in the same order.
+ * @param options The line order and the styling of the second line.
+ * @returns The bilingual SRT content.
+ */
+export const createDualSrt = (translatedVtt: string, sourceCues: Cue[], options: DualSubtitleOptions): string => {
+  const secondaryStyle = options.secondaryStyle === 'class' ? 'italic' : options.secondaryStyle;
+  return serializeSrt(mergeDualCues(getCues(parseVtt(translatedVtt)), sourceCues, { ...options, secondaryStyle }));
+};
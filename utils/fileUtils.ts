@@ -8,8 +8,8 @@ export const readFileAsText = (file: File): Promise<string> => {
   });
 };
 
-export const downloadFile = (content: string, filename: string) => {
-  const blob = new Blob([content], { type: 'text/vtt;charset=utf-8;' });
+export const downloadFile = (content: string, filename: string, mimeType: string = 'text/vtt;charset=utf-8;') => {
+  const blob = new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.setAttribute('href', url);
@@ -0,0 +1,291 @@
+import { Cue } from './vttUtils';
+import { LanguagePair } from './languages';
+import { escapeXml } from './xmlUtils';
+
+export interface GlossaryEntry {
+  term: string;
+  translation: string;
+  /** Whether the term only matches with the same capitalization. */
+  caseSensitive: boolean;
+  /** Whether the term only matches as a whole word, not inside a longer one. */
+  wholeWord: boolean;
+  /** Usage hint passed on to the model, e.g. a gender or a context. */
+  note?: string;
+}
+
+/** A named glossary, e.g. one per show or client. */
+export interface Glossary {
+  id: string;
+  name: string;
+  entries: GlossaryEntry[];
+}
+
+/** A cue whose source contains a glossary term while its translation lacks the required translation. */
+export interface GlossaryIssue {
+  /** Index of the cue in the source file. */
+  cueIndex: number;
+  term: string;
+  translation: string;
+}
+
+const CSV_COLUMNS = ['term', 'translation', 'case_sensitive', 'whole_word', 'note'] as const;
+const TBX_NAMESPACE = 'urn:iso:std:iso:30042:ed-2';
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x'];
+
+/**
+ * Creates an empty glossary entry with the default matching rules.
+ */
+export const createGlossaryEntry = (term = '', translation = ''): GlossaryEntry => ({
+  term,
+  translation,
+  caseSensitive: false,
+  wholeWord: true,
+});
+
+/**
+ * Creates a new named glossary.
+ */
+export const createGlossary = (name: string, entries: GlossaryEntry[] = []): Glossary => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  entries,
+});
+
+const isUsable = (entry: GlossaryEntry) => entry.term.trim() !== '' && entry.translation.trim() !== '';
+
+/**
+ * Adds entries to a glossary, replacing existing entries for the same term.
+ * @param entries The current entries.
+ * @param added The entries to add. Terms are compared ignoring case.
+ */
+export const mergeGlossaryEntries = (entries: GlossaryEntry[], added: GlossaryEntry[]): GlossaryEntry[] => {
+  const addedTerms = new Set(added.map(entry => entry.term.trim().toLowerCase()));
+  return [...entries.filter(entry => !addedTerms.has(entry.term.trim().toLowerCase())), ...added];
+};
+
+/**
+ * Parses `Term: Translation` lines, the format of the free-text glossary.
+ * Lines without a colon are skipped.
+ * @param text One entry per line.
+ */
+export const parseGlossaryText = (text: string): GlossaryEntry[] =>
+  text.split(/\r?\n/).flatMap(line => {
+    const separator = line.indexOf(':');
+    if (separator === -1) return [];
+    const entry = createGlossaryEntry(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+    return isUsable(entry) ? [entry] : [];
+  });
+
+/**
+ * Formats glossary entries as `Term: Translation` lines for the prompt, with
+ * case sensitivity and notes in parentheses.
+ * @param entries The glossary entries. Entries missing a term or translation are left out.
+ */
+export const formatGlossaryForPrompt = (entries: GlossaryEntry[]): string =>
+  entries.filter(isUsable).map(entry => {
+    const hints = [entry.caseSensitive && 'case-sensitive', entry.note?.trim()].filter(Boolean);
+    return `${entry.term.trim()}: ${entry.translation.trim()}` + (hints.length > 0 ? ` (${hints.join('; ')})` : '');
+  }).join('\n');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Builds the pattern finding a term in source text. Whole-word matching looks at
+ * letters and digits of any script, so it works beyond ASCII.
+ */
+const getTermPattern = (entry: GlossaryEntry): RegExp => {
+  const term = escapeRegExp(entry.term.trim()).replace(/\s+/g, '\\s+');
+  const source = entry.wholeWord ? `(?<![\\p{L}\\p{N}])${term}(?![\\p{L}\\p{N}])` : term;
+  return new RegExp(source, entry.caseSensitive ? 'u' : 'iu');
+};
+
+/**
+ * Finds cues where a glossary term appears in the source but the required
+ * translation is missing from the translated text. Translations are matched as
+ * plain substrings, since many target languages do not separate words with spaces.
+ * @param sourceCues The source cues.
+ * @param translatedCues The translated cues, in the same order.
+ * @param entries The glossary entries.
+ * @param firstCueIndex Index of the first cue in the source file, used in the results.
+ * @returns One issue per cue and term.
+ */
+export const findGlossaryIssues = (sourceCues: Cue[], translatedCues: Cue[], entries: GlossaryEntry[], firstCueIndex = 0): GlossaryIssue[] => {
+  const rules = entries.filter(isUsable).map(entry => ({ entry, pattern: getTermPattern(entry) }));
+  return sourceCues.flatMap((cue, index) => {
+    const translatedText = translatedCues[index]?.text ?? '';
+    return rules
+      .filter(({ entry, pattern }) => {
+        if (!pattern.test(cue.text)) return false;
+        const translation = entry.translation.trim();
+        return entry.caseSensitive
+          ? !translatedText.includes(translation)
+          : !translatedText.toLocaleLowerCase().includes(translation.toLocaleLowerCase());
+      })
+      .map(({ entry }) => ({ cueIndex: firstCueIndex + index, term: entry.term.trim(), translation: entry.translation.trim() }));
+  });
+};
+
+const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Serializes glossary entries as CSV with a header row.
+ * @returns The CSV content.
+ */
+export const serializeGlossaryCsv = (entries: GlossaryEntry[]): string =>
+  [
+    CSV_COLUMNS.join(','),
+    ...entries.map(entry => [
+      entry.term,
+      entry.translation,
+      String(entry.caseSensitive),
+      String(entry.wholeWord),
+      entry.note ?? '',
+    ].map(escapeCsvField).join(',')),
+  ].join('\r\n') + '\r\n';
+
+/** Splits CSV content into rows of fields, honoring quoted fields with commas, quotes and line breaks. */
+const parseCsvRows = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) rows.push([...row, field]);
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+};
+
+/**
+ * Parses glossary entries from CSV. A header row naming the columns (`term`,
+ * `translation`, `case_sensitive`, `whole_word`, `note`) is optional; without
+ * one, the columns are read in that order.
+ * @param csvContent The CSV content.
+ */
+export const parseGlossaryCsv = (csvContent: string): GlossaryEntry[] => {
+  const rows = parseCsvRows(csvContent.replace(/^\uFEFF/, ''));
+  const header = rows[0]?.map(value => value.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+  const hasHeader = header?.includes('term');
+  const columnIndexes = CSV_COLUMNS.map((column, index) => hasHeader ? header!.indexOf(column) : index);
+
+  return rows.slice(hasHeader ? 1 : 0).flatMap(fields => {
+    const [term, translation, caseSensitive, wholeWord, note] = columnIndexes.map(index => (index === -1 ? undefined : fields[index]?.trim()));
+    const entry: GlossaryEntry = {
+      term: term ?? '',
+      translation: translation ?? '',
+      caseSensitive: caseSensitive ? TRUE_VALUES.includes(caseSensitive.toLowerCase()) : false,
+      wholeWord: wholeWord ? TRUE_VALUES.includes(wholeWord.toLowerCase()) : true,
+      ...(note ? { note } : {}),
+    };
+    return isUsable(entry) ? [entry] : [];
+  });
+};
+
+/**
+ * Serializes glossary entries as a TBX (ISO 30042) document with one concept
+ * per entry. Matching rules are stored as `x-caseSensitive` and `x-wholeWord` term notes.
+ * @param glossary The glossary.
+ * @param languages The languages of the terms and their translations.
+ * @returns The TBX content.
+ */
+export const serializeGlossaryTbx = (glossary: Glossary, languages: LanguagePair): string => {
+  const concepts = glossary.entries.filter(isUsable).map((entry, index) => [
+    `      <conceptEntry id="c${index + 1}">`,
+    ...(entry.note ? [`        <descrip type="definition">${escapeXml(entry.note)}</descrip>`] : []),
+    `        <langSec xml:lang="${escapeXml(languages.source)}">`,
+    '          <termSec>',
+    `            <term>${escapeXml(entry.term)}</term>`,
+    `            <termNote type="x-caseSensitive">${entry.caseSensitive}</termNote>`,
+    `            <termNote type="x-wholeWord">${entry.wholeWord}</termNote>`,
+    '          </termSec>',
+    '        </langSec>',
+    `        <langSec xml:lang="${escapeXml(languages.target)}">`,
+    `          <termSec><term>${escapeXml(entry.translation)}</term></termSec>`,
+    '        </langSec>',
+    '      </conceptEntry>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tbx type="TBX-Basic" style="dca" xml:lang="${escapeXml(languages.source)}" xmlns="${TBX_NAMESPACE}">`,
+    '  <tbxHeader>',
+    `    <fileDesc><titleStmt><title>${escapeXml(glossary.name)}</title></titleStmt><sourceDesc><p>subtitle-translator</p></sourceDesc></fileDesc>`,
+    '  </tbxHeader>',
+    '  <text>',
+    '    <body>',
+    ...concepts,
+    '    </body>',
+    '  </text>',
+    '</tbx>',
+    '',
+  ].join('\n');
+};
+
+const getElements = (parent: Element | Document, ...localNames: string[]): Element[] =>
+  localNames.flatMap(localName => Array.from(parent.getElementsByTagNameNS('*', localName)));
+
+const getNote = (parent: Element, type: string): string | undefined =>
+  getElements(parent, 'termNote', 'descrip').find(element => element.getAttribute('type') === type)?.textContent?.trim();
+
+/**
+ * Parses glossary entries from a TBX document. Both TBX 2019 (`conceptEntry`,
+ * `langSec`) and the older TBX/MARTIF layout (`termEntry`, `langSet`) are read.
+ * The term is taken from the source language, the translation from the target
+ * language; concepts lacking either fall back to their first and second language.
+ * @param tbxContent The TBX content.
+ * @param languages The languages to pick from multilingual concepts.
+ */
+export const parseGlossaryTbx = (tbxContent: string, languages: LanguagePair): GlossaryEntry[] => {
+  const document = new DOMParser().parseFromString(tbxContent, 'application/xml');
+  if (document.getElementsByTagNameNS('*', 'parsererror').length > 0 || !['tbx', 'martif'].includes(document.documentElement.localName)) {
+    throw new Error('Invalid TBX: the file is not a well-formed TBX document.');
+  }
+
+  const matchesLanguage = (element: Element, code: string) => {
+    const language = (element.getAttribute('xml:lang') ?? element.getAttribute('lang') ?? '').toLowerCase();
+    return language === code.toLowerCase() || language.split(/[-_]/)[0] === code.split('-')[0].toLowerCase();
+  };
+
+  return getElements(document, 'conceptEntry', 'termEntry').flatMap(concept => {
+    const sections = getElements(concept, 'langSec', 'langSet');
+    const sourceSection = sections.find(section => matchesLanguage(section, languages.source)) ?? sections[0];
+    const targetSection = sections.find(section => section !== sourceSection && matchesLanguage(section, languages.target))
+      ?? sections.find(section => section !== sourceSection);
+    if (!sourceSection || !targetSection) return [];
+
+    const caseSensitive = getNote(sourceSection, 'x-caseSensitive');
+    const wholeWord = getNote(sourceSection, 'x-wholeWord');
+    const note = getNote(concept, 'definition') ?? getNote(concept, 'context');
+    const entry: GlossaryEntry = {
+      term: getElements(sourceSection, 'term')[0]?.textContent?.trim() ?? '',
+      translation: getElements(targetSection, 'term')[0]?.textContent?.trim() ?? '',
+      caseSensitive: caseSensitive ? TRUE_VALUES.includes(caseSensitive.toLowerCase()) : false,
+      wholeWord: wholeWord ? TRUE_VALUES.includes(wholeWord.toLowerCase()) : true,
+      ...(note ? { note } : {}),
+    };
+    return isUsable(entry) ? [entry] : [];
+  });
+};
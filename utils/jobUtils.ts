@@ -0,0 +1,22 @@
+import type { TranslationJob, TranslationStatus } from '../App';
+
+/**
+ * Summarizes the status of a job from the statuses of its tracks.
+ * @param job The job.
+ * @returns `processing` while any track is running, then `queued` while any is
+ * waiting, `paused` while any is paused, `error` if any failed, otherwise `completed`.
+ */
+export const getJobStatus = (job: TranslationJob): TranslationStatus => {
+  const statuses = job.tracks.map(track => track.status);
+  if (statuses.includes('processing')) return 'processing';
+  if (statuses.includes('queued')) return 'queued';
+  if (statuses.includes('paused')) return 'paused';
+  if (statuses.includes('error')) return 'error';
+  return 'completed';
+};
+
+/**
+ * Counts the tracks, across all jobs, that have the given status.
+ */
+export const countTracks = (jobs: TranslationJob[], status: TranslationStatus): number =>
+  jobs.reduce((count, job) => count + job.tracks.filter(track => track.status === status).length, 0);
@@ -0,0 +1,43 @@
+export interface Language {
+  /** BCP-47 language tag. */
+  code: string;
+  /** English name, used in prompts. */
+  name: string;
+  /** The two lines of the prompt's few-shot example, written in this language. */
+  example: [string, string];
+}
+
+export interface LanguagePair {
+  source: string;
+  target: string;
+}
+
+/** The source language of a job and every language it is translated into. */
+export interface LanguageSelection {
+  source: string;
+  targets: string[];
+}
+
+export const LANGUAGES: Language[] = [
+  { code: 'en', name: 'English', example: ['This is an <i>example</i> subtitle.', 'It demonstrates the format.'] },
+  { code: 'vi', name: 'Vietnamese', example: ['Đây là một phụ đề <i>ví dụ</i>.', 'Nó minh họa cho định dạng.'] },
+  { code: 'th', name: 'Thai', example: ['นี่คือคำบรรยาย<i>ตัวอย่าง</i>', 'ซึ่งแสดงให้เห็นถึงรูปแบบ'] },
+  { code: 'id', name: 'Indonesian', example: ['Ini adalah subtitle <i>contoh</i>.', 'Ini menunjukkan formatnya.'] },
+  { code: 'ja', name: 'Japanese', example: ['これは<i>例</i>の字幕です。', '形式を示しています。'] },
+  { code: 'ko', name: 'Korean', example: ['이것은 <i>예시</i> 자막입니다.', '형식을 보여줍니다.'] },
+  { code: 'zh-Hans', name: 'Simplified Chinese', example: ['这是一条<i>示例</i>字幕。', '它展示了格式。'] },
+  { code: 'es', name: 'Spanish', example: ['Este es un subtítulo de <i>ejemplo</i>.', 'Demuestra el formato.'] },
+  { code: 'fr', name: 'French', example: ['Ceci est un sous-titre d\'<i>exemple</i>.', 'Il illustre le format.'] },
+];
+
+export const DEFAULT_LANGUAGES: LanguageSelection = { source: 'en', targets: ['vi'] };
+
+/**
+ * Looks up a language by its BCP-47 code.
+ * @param code The language code.
+ * @returns The language, falling back to English for unknown codes.
+ */
+export const getLanguage = (code: string): Language =>
+  LANGUAGES.find(language => language.code === code) ?? LANGUAGES[0];
+
+export const getLanguageName = (code: string): string => getLanguage(code).name;
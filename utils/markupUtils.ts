@@ -0,0 +1,212 @@
+import { Cue } from './vttUtils';
+
+/**
+ * A WebVTT cue tag, a karaoke timestamp such as `<00:00:01.500>`, or a block in curly
+ * braces such as the `{1}` placeholder of an ASS override block.
+ */
+interface MarkupTag {
+  kind: 'open' | 'close' | 'timestamp' | 'override';
+  /** The tag name, e.g. `i`, `c` or `v`; empty for timestamps and overrides. */
+  name: string;
+  /** The tag as written, with its classes and annotation, e.g. `<c.yellow>` or `<v Mary>`. */
+  label: string;
+}
+
+/** A cue whose translation lost, gained or broke tags of the source. */
+export interface MarkupIssue {
+  /** Index of the cue in the source file. */
+  cueIndex: number;
+  problem: 'missing' | 'unexpected' | 'unbalanced';
+  tag: string;
+}
+
+const TAG_PATTERN = /<([^<>\n]*)>|\{[^{}\n]*\}/g;
+const TIMESTAMP_PATTERN = /^(?:\d+:)?\d{2}:\d{2}\.\d{3}$/;
+const ELEMENT_PATTERN = /^(\/)?([a-z]+)((?:\.[^\s.]+)*)(?:[ \t]+(.*))?$/i;
+const CUE_TAG_NAMES = new Set(['c', 'i', 'b', 'u', 'v', 'lang', 'ruby', 'rt']);
+/** Tags that wrap a whole cue and can be put back around a translation that lost them. */
+const WRAPPER_TAG_NAMES = new Set(['c', 'i', 'b', 'u', 'lang']);
+
+/**
+ * Lists the cue tags, timestamps and curly-brace blocks in a cue text, in order.
+ * Anything in angle brackets that is not a WebVTT tag, like `<3`, is ignored.
+ */
+const parseTags = (text: string): MarkupTag[] =>
+  Array.from(text.matchAll(TAG_PATTERN)).flatMap(([raw, inner]): MarkupTag[] => {
+    if (inner === undefined) return [{ kind: 'override', name: '', label: raw }];
+    if (TIMESTAMP_PATTERN.test(inner)) return [{ kind: 'timestamp', name: '', label: raw }];
+    const match = inner.match(ELEMENT_PATTERN);
+    const name = match?.[2].toLowerCase();
+    if (!match || !name || !CUE_TAG_NAMES.has(name)) return [];
+    if (match[1]) return [{ kind: 'close', name, label: `</${name}>` }];
+    const annotation = match[4]?.trim();
+    return [{ kind: 'open', name, label: `<${name}${match[3]}${annotation ? ` ${annotation}` : ''}>` }];
+  });
+
+/**
+ * Finds opening tags that are never closed and closing tags without an opening tag.
+ * A voice tag may stay open until the end of the cue, as WebVTT allows.
+ */
+const findUnbalancedTags = (tags: MarkupTag[]): { unclosed: MarkupTag[]; stray: MarkupTag[] } => {
+  const open: MarkupTag[] = [];
+  const unclosed: MarkupTag[] = [];
+  const stray: MarkupTag[] = [];
+  tags.forEach(tag => {
+    if (tag.kind === 'open') {
+      open.push(tag);
+    } else if (tag.kind === 'close') {
+      const index = open.map(openTag => openTag.name).lastIndexOf(tag.name);
+      if (index === -1) {
+        stray.push(tag);
+      } else {
+        // Tags opened inside the one being closed are closed implicitly.
+        unclosed.push(...open.splice(index).slice(1).filter(openTag => openTag.name !== 'v'));
+      }
+    }
+  });
+  unclosed.push(...open.filter(tag => tag.name !== 'v'));
+  return { unclosed, stray };
+};
+
+const countLabels = (tags: MarkupTag[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  tags.forEach(tag => counts.set(tag.label, (counts.get(tag.label) ?? 0) + 1));
+  return counts;
+};
+
+const findCueIssues = (sourceText: string, translatedText: string, cueIndex: number): MarkupIssue[] => {
+  const sourceTags = parseTags(sourceText);
+  const translatedTags = parseTags(translatedText);
+  const sourceCounts = countLabels(sourceTags.filter(tag => tag.kind !== 'close'));
+  const translatedCounts = countLabels(translatedTags.filter(tag => tag.kind !== 'close'));
+  const issues: MarkupIssue[] = [];
+
+  sourceCounts.forEach((count, tag) => {
+    if ((translatedCounts.get(tag) ?? 0) < count) issues.push({ cueIndex, problem: 'missing', tag });
+  });
+  translatedCounts.forEach((count, tag) => {
+    if ((sourceCounts.get(tag) ?? 0) < count) issues.push({ cueIndex, problem: 'unexpected', tag });
+  });
+
+  // A source that is itself unbalanced is not held against the translation.
+  const sourceUnbalanced = findUnbalancedTags(sourceTags);
+  const sourceLabels = new Set([...sourceUnbalanced.unclosed, ...sourceUnbalanced.stray].map(tag => tag.label));
+  const { unclosed, stray } = findUnbalancedTags(translatedTags);
+  new Set([...unclosed, ...stray].map(tag => tag.label)).forEach(tag => {
+    if (!sourceLabels.has(tag)) issues.push({ cueIndex, problem: 'unbalanced', tag });
+  });
+  return issues;
+};
+
+/**
+ * Compares the tags of each translated cue with its source cue: styling and class
+ * spans, voice, language and ruby tags, karaoke timestamps and blocks in curly braces.
+ * @param sourceCues The source cues.
+ * @param translatedCues The translated cues, in the same order.
+ * @param firstCueIndex Index of the first cue in the source file, used in the results.
+ * @returns One issue per cue and tag.
+ */
+export const findMarkupIssues = (sourceCues: Cue[], translatedCues: Cue[], firstCueIndex = 0): MarkupIssue[] =>
+  sourceCues.flatMap((cue, index) =>
+    translatedCues[index] ? findCueIssues(cue.text, translatedCues[index].text, firstCueIndex + index) : []
+  );
+
+/**
+ * Splits a leading voice tag, and a closing `</v>` at the very end, off a cue text.
+ */
+const splitVoice = (text: string): { voice?: string; body: string; closesVoice: boolean } => {
+  const tags = parseTags(text);
+  const first = tags[0];
+  if (first?.kind !== 'open' || first.name !== 'v' || !text.startsWith('<v')) {
+    return { body: text, closesVoice: false };
+  }
+  let body = text.slice(text.indexOf('>') + 1);
+  const closesVoice = /<\/v>$/i.test(body);
+  if (closesVoice) body = body.slice(0, -'</v>'.length);
+  return { voice: text.slice(0, text.indexOf('>') + 1), body, closesVoice };
+};
+
+/**
+ * Lists the tags that wrap the whole text, from the outside in,
+ * e.g. `<i>` and `<c.yellow>` for `<i><c.yellow>Hello</c></i>`.
+ */
+const findWrapperTags = (text: string): { name: string; opening: string }[] => {
+  const wrappers: { name: string; opening: string }[] = [];
+  let body = text;
+  while (true) {
+    const match = body.match(/^<([a-z]+)[^<>\n]*>/i);
+    const name = match?.[1].toLowerCase();
+    if (!match || !name || !WRAPPER_TAG_NAMES.has(name) || !body.toLowerCase().endsWith(`</${name}>`)) break;
+    const inner = body.slice(match[0].length, -`</${name}>`.length);
+    // In `<i>a</i> b <i>c</i>` the first tag closes early, so it does not wrap the whole text.
+    let depth = 0;
+    const closesEarly = parseTags(inner).some(tag => {
+      if (tag.name !== name) return false;
+      depth += tag.kind === 'open' ? 1 : -1;
+      return depth < 0;
+    });
+    if (closesEarly) break;
+    wrappers.push({ name, opening: match[0] });
+    body = inner;
+  }
+  return wrappers;
+};
+
+/**
+ * Repairs the tags of a translated cue where the intent of the source is clear:
+ * a whole-cue wrapper such as italics that the translation lost is put back, a
+ * dropped leading voice tag is restored, closing tags missing from the translation
+ * are added at the end and closing tags without an opening tag are removed.
+ * Tags inside the text, such as karaoke timestamps and override placeholders, cannot be placed
+ * safely and are left alone.
+ * @param sourceText The source cue text.
+ * @param translatedText The translated cue text.
+ * @returns The repaired translation, or the translation unchanged.
+ */
+export const repairMarkup = (sourceText: string, translatedText: string): string => {
+  const issueCount = findCueIssues(sourceText, translatedText, 0).length;
+  if (issueCount === 0) return translatedText;
+
+  const source = splitVoice(sourceText.trim());
+  const translation = splitVoice(translatedText.trim());
+  let body = translation.body;
+
+  [...findWrapperTags(source.body)].reverse().forEach(({ name, opening }) => {
+    if (!parseTags(body).some(tag => tag.name === name)) {
+      body = `${opening}${body}</${name}>`;
+    }
+  });
+
+  const { unclosed, stray } = findUnbalancedTags(parseTags(body));
+  stray.forEach(tag => {
+    body = body.replace(new RegExp(tag.label.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&'), 'i'), '');
+  });
+  body += unclosed.reverse().map(tag => `</${tag.name}>`).join('');
+
+  const hasVoice = parseTags(translatedText).some(tag => tag.name === 'v');
+  const voice = translation.voice ?? (hasVoice ? undefined : source.voice);
+  const closesVoice = translation.voice ? translation.closesVoice : source.closesVoice;
+  const repaired = voice ? `${voice}${body}${closesVoice ? '</v>' : ''}` : body;
+
+  // A change that does not fix anything is dropped, so the translation keeps its own formatting.
+  return findCueIssues(sourceText, repaired, 0).length < issueCount ? repaired : translatedText;
+};
+
+/**
+ * Repairs the tags of every translated cue; see {@link repairMarkup}.
+ * @param sourceCues The source cues.
+ * @param translatedCues The translated cues, in the same order.
+ * @returns The translated cues with repaired text, and how many were changed.
+ */
+export const repairCueMarkup = (sourceCues: Cue[], translatedCues: Cue[]): { cues: Cue[]; repairedCount: number } => {
+  let repairedCount = 0;
+  const cues = translatedCues.map((cue, index) => {
+    const sourceCue = sourceCues[index];
+    if (!sourceCue) return cue;
+    const text = repairMarkup(sourceCue.text, cue.text);
+    if (text === cue.text) return cue;
+    repairedCount++;
+    return { ...cue, text };
+  });
+  return { cues, repairedCount };
+};
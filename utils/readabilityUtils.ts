@@ -0,0 +1,144 @@
+import { Cue } from './vttUtils';
+
+/** Reading-speed and line-length limits that translated cues are checked against. */
+export interface ReadabilityLimits {
+  /** Maximum characters per second of display time. */
+  maxCharsPerSecond: number;
+  /** Maximum characters on one line. */
+  maxCharsPerLine: number;
+}
+
+export const DEFAULT_READABILITY_LIMITS: ReadabilityLimits = {
+  maxCharsPerSecond: 17,
+  maxCharsPerLine: 42,
+};
+
+/** A translated cue that is too fast to read or has a line that is too long. */
+export interface ReadabilityIssue {
+  cueIndex: number;
+  charsPerSecond: number;
+  longestLine: number;
+  exceedsCharsPerSecond: boolean;
+  exceedsCharsPerLine: boolean;
+}
+
+const ENTITIES: Record<string, string> = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&nbsp;': ' ', '&lrm;': '', '&rlm;': '' };
+
+/**
+ * Returns the text a viewer sees: tags, karaoke timestamps and override placeholders removed, entities decoded.
+ */
+const getVisibleText = (text: string): string =>
+  text.replace(/<[^>]*>/g, '').replace(/\{[^}]*\}/g, '').replace(/&(?:amp|lt|gt|nbsp|lrm|rlm);/g, entity => ENTITIES[entity]).normalize('NFC');
+
+/**
+ * Counts the characters a viewer sees, so that combining marks and surrogate pairs count once.
+ */
+const countVisibleCharacters = (text: string): number => Array.from(getVisibleText(text)).length;
+
+/**
+ * Measures how fast a cue must be read and how long its longest line is.
+ * Line breaks are not counted as characters.
+ * @param cue The cue to measure.
+ * @returns The characters per second, rounded to one decimal, and the longest line length.
+ */
+export const measureCue = (cue: Cue): { charsPerSecond: number; longestLine: number } => {
+  const lineLengths = cue.text.split('\n').map(countVisibleCharacters);
+  const characters = lineLengths.reduce((sum, length) => sum + length, 0);
+  const seconds = (cue.endTime - cue.startTime) / 1000;
+  const charsPerSecond = seconds > 0 ? Math.round((characters / seconds) * 10) / 10 : Infinity;
+  return { charsPerSecond, longestLine: Math.max(0, ...lineLengths) };
+};
+
+/**
+ * Checks every cue against the reading-speed and line-length limits.
+ * @param cues The translated cues.
+ * @param limits The limits to check against.
+ * @returns One issue per cue that exceeds a limit.
+ */
+export const findReadabilityIssues = (cues: Cue[], limits: ReadabilityLimits): ReadabilityIssue[] =>
+  cues.flatMap((cue, cueIndex) => {
+    const { charsPerSecond, longestLine } = measureCue(cue);
+    const exceedsCharsPerSecond = charsPerSecond > limits.maxCharsPerSecond;
+    const exceedsCharsPerLine = longestLine > limits.maxCharsPerLine;
+    return exceedsCharsPerSecond || exceedsCharsPerLine
+      ? [{ cueIndex, charsPerSecond, longestLine, exceedsCharsPerSecond, exceedsCharsPerLine }]
+      : [];
+  });
+
+/**
+ * Splits words into the fewest lines that fit, then evens out their lengths.
+ * A word longer than the limit gets a line of its own.
+ */
+const balanceWords = (words: string[], maxCharsPerLine: number): string[] => {
+  const lengths = words.map(countVisibleCharacters);
+  const lineLength = (from: number, to: number) =>
+    lengths.slice(from, to).reduce((sum, length) => sum + length, 0) + (to - from - 1);
+
+  // Greedy filling gives the smallest number of lines.
+  let lineCount = 1;
+  let current = 0;
+  lengths.forEach((length, index) => {
+    if (index > 0 && current + 1 + length > maxCharsPerLine) {
+      lineCount++;
+      current = length;
+    } else {
+      current += index > 0 ? 1 + length : length;
+    }
+  });
+
+  // best[k][i]: the smallest possible longest line when words[0, i) fill k lines.
+  const count = words.length;
+  const best: number[][] = Array.from({ length: lineCount + 1 }, () => new Array(count + 1).fill(Infinity));
+  const breakAt: number[][] = Array.from({ length: lineCount + 1 }, () => new Array(count + 1).fill(0));
+  best[0][0] = 0;
+  for (let k = 1; k <= lineCount; k++) {
+    for (let i = k; i <= count; i++) {
+      for (let j = k - 1; j < i; j++) {
+        const longest = Math.max(best[k - 1][j], lineLength(j, i));
+        // Ties go to the earliest break, which keeps the top line shorter, as subtitle guidelines prefer.
+        if (longest < best[k][i]) {
+          best[k][i] = longest;
+          breakAt[k][i] = j;
+        }
+      }
+    }
+  }
+
+  const lines: string[] = [];
+  for (let k = lineCount, end = count; k > 0; k--) {
+    const start = breakAt[k][end];
+    lines.unshift(words.slice(start, end).join(' '));
+    end = start;
+  }
+  return lines;
+};
+
+/**
+ * Re-breaks the lines of a cue at word boundaries so that each line fits the limit
+ * and the lines are of similar length. Text that fits on one line is joined into one.
+ * Dialogue cues, with a line per speaker starting with a dash, are left as they are.
+ * @param text The cue text.
+ * @param maxCharsPerLine The maximum characters on one line.
+ * @returns The re-broken text.
+ */
+export const rebalanceLines = (text: string, maxCharsPerLine: number): string => {
+  const lines = text.split('\n');
+  if (lines.length > 1 && lines.every(line => /^\s*(?:<[^>]*>)*[-–‐]/.test(line))) {
+    return text;
+  }
+  // Tags such as `<v Mary Jane>` contain spaces, so they are kept whole with the word they touch.
+  const words = text.match(/(?:<[^>\n]*>|<|[^\s<])+/g);
+  if (!words) return text;
+  return balanceWords(words, maxCharsPerLine).join('\n');
+};
+
+/**
+ * Re-breaks the lines of every cue that has a line over the limit.
+ * @param cues The cues to update.
+ * @param maxCharsPerLine The maximum characters on one line.
+ * @returns The cues, with only over-long cues changed.
+ */
+export const rebalanceCueLines = (cues: Cue[], maxCharsPerLine: number): Cue[] =>
+  cues.map(cue =>
+    measureCue(cue).longestLine > maxCharsPerLine ? { ...cue, text: rebalanceLines(cue.text, maxCharsPerLine) } : cue
+  );
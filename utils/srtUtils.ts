@@ -0,0 +1,70 @@
+import { Cue, VttDocument, formatTimestamp } from './vttUtils';
+
+const SRT_TIMESTAMP_PATTERN = /^(\d+):(\d{1,2}):(\d{1,2})[,.](\d{1,3})$/;
+const SRT_TIMING_LINE_PATTERN = /^\s*(\S+)[ \t]+-->[ \t]+(\S+)/;
+// SubRip players understand only basic styling, so everything else WebVTT allows is dropped on export.
+const SRT_UNSUPPORTED_TAG_PATTERN = /<(?!\/?(?:i|b|u|font)\b)[^>]*>/gi;
+const VTT_CLASS_PATTERN = /<(i|b|u)\.[^>]*>/gi;
+
+/**
+ * Parses an SRT timestamp. Both the standard comma and a dot are accepted as
+ * the millisecond separator, as many tools emit either.
+ * @param timestamp The timestamp string, e.g. `00:01:02,345`.
+ * @returns The time in milliseconds, or null if the timestamp is malformed.
+ */
+export const parseSrtTimestamp = (timestamp: string): number | null => {
+  const match = SRT_TIMESTAMP_PATTERN.exec(timestamp.trim());
+  if (!match) return null;
+  const [, hours, minutes, seconds, millis] = match;
+  return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + Number(millis.padEnd(3, '0'));
+};
+
+/**
+ * Parses SRT content into the WebVTT cue model. The numeric index of each
+ * entry becomes the cue identifier.
+ * @param srtContent The raw string content of the .srt file.
+ * @returns A WebVTT document holding the SRT entries as cues.
+ */
+export const parseSrt = (srtContent: string): VttDocument => {
+  const normalizedContent = srtContent.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const cues: Cue[] = [];
+
+  for (const block of normalizedContent.split(/\n(?:[ \t]*\n)+/)) {
+    const lines = block.replace(/^\n+/, '').split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const match = SRT_TIMING_LINE_PATTERN.exec(lines[timingIndex]);
+    const startTime = match ? parseSrtTimestamp(match[1]) : null;
+    const endTime = match ? parseSrtTimestamp(match[2]) : null;
+    if (startTime === null || endTime === null) continue;
+
+    const identifier = lines.slice(0, timingIndex).join('\n').trim();
+    cues.push({
+      type: 'cue',
+      leading: '\n\n',
+      identifier: identifier || undefined,
+      startTime,
+      endTime,
+      settings: {},
+      text: lines.slice(timingIndex + 1).join('\n').trimEnd(),
+    });
+  }
+
+  return { bom: false, lineEnding: '\n', header: 'WEBVTT', blocks: cues, trailing: '\n' };
+};
+
+/**
+ * Serializes cues as SRT. Entries are renumbered from 1, since WebVTT
+ * identifiers are optional and need not be numeric.
+ * @param cues The cues to write.
+ * @returns The SRT content.
+ */
+export const serializeSrt = (cues: Cue[]): string =>
+  cues
+    .map((cue, index) => {
+      const timing = `${formatTimestamp(cue.startTime, ',')} --> ${formatTimestamp(cue.endTime, ',')}`;
+      const text = cue.text.replace(VTT_CLASS_PATTERN, '<$1>').replace(SRT_UNSUPPORTED_TAG_PATTERN, '');
+      return `${index + 1}\n${timing}\n${text}`;
+    })
+    .join('\n\n') + '\n';
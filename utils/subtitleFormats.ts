@@ -0,0 +1,123 @@
+import { VttDocument, parseVtt, getCues, replaceCues, serializeVtt } from './vttUtils';
+import { parseSrt, serializeSrt } from './srtUtils';
+import { parseAss, assToVtt, serializeAss, removeOverridePlaceholders } from './assUtils';
+import { parseTtml, ttmlToVtt, serializeTtml } from './ttmlUtils';
+
+export type SubtitleFormat = 'vtt' | 'srt' | 'ass' | 'ssa' | 'ttml' | 'dfxp';
+
+export const SUBTITLE_FORMAT_LABELS: Record<SubtitleFormat, string> = {
+  vtt: 'VTT',
+  srt: 'SRT',
+  ass: 'ASS',
+  ssa: 'SSA',
+  ttml: 'TTML',
+  dfxp: 'DFXP',
+};
+
+const MIME_TYPES: Record<SubtitleFormat, string> = {
+  vtt: 'text/vtt;charset=utf-8;',
+  srt: 'application/x-subrip;charset=utf-8;',
+  ass: 'text/x-ssa;charset=utf-8;',
+  ssa: 'text/x-ssa;charset=utf-8;',
+  ttml: 'application/ttml+xml;charset=utf-8;',
+  dfxp: 'application/ttml+xml;charset=utf-8;',
+};
+
+export const SUPPORTED_EXTENSIONS = Object.keys(SUBTITLE_FORMAT_LABELS).map(format => `.${format}`);
+
+const isAssFormat = (format: SubtitleFormat): boolean => format === 'ass' || format === 'ssa';
+const isTtmlFormat = (format: SubtitleFormat): boolean => format === 'ttml' || format === 'dfxp';
+
+/**
+ * Determines the subtitle format of a file from its extension.
+ * @param fileName The name of the file.
+ * @returns The detected format, or null if the file type is not supported.
+ */
+export const detectSubtitleFormat = (fileName: string): SubtitleFormat | null => {
+  const extension = fileName.slice(fileName.lastIndexOf('.') + 1).toLowerCase();
+  return extension in SUBTITLE_FORMAT_LABELS ? extension as SubtitleFormat : null;
+};
+
+/**
+ * Lists the formats a job can be downloaded as. ASS/SSA output needs the
+ * source file's styles and events, so it is only offered for ASS/SSA sources;
+ * DFXP is offered alongside TTML for DFXP sources.
+ * @param sourceFormat The format of the source file.
+ * @returns The available output formats.
+ */
+export const getExportFormats = (sourceFormat: SubtitleFormat): SubtitleFormat[] => {
+  const formats: SubtitleFormat[] = ['vtt', 'srt', 'ttml'];
+  if (isAssFormat(sourceFormat) || sourceFormat === 'dfxp') formats.push(sourceFormat);
+  return formats;
+};
+
+/**
+ * Parses subtitle content of any supported format into the WebVTT cue model.
+ * @param content The raw file content.
+ * @param format The format of the content.
+ * @returns The parsed document.
+ */
+export const parseSubtitle = (content: string, format: SubtitleFormat): VttDocument => {
+  switch (format) {
+    case 'vtt': return parseVtt(content);
+    case 'srt': return parseSrt(content);
+    case 'ass':
+    case 'ssa': return assToVtt(parseAss(content));
+    case 'ttml':
+    case 'dfxp': return ttmlToVtt(parseTtml(content));
+  }
+};
+
+/**
+ * Removes the placeholders of ASS override blocks from a document parsed from an ASS/SSA source,
+ * for output in formats other than ASS/SSA. Documents from other sources are returned unchanged.
+ * @param document A source or translated document.
+ * @param sourceFormat The format of the source file.
+ * @returns The document without placeholders.
+ */
+export const removeFormatPlaceholders = (document: VttDocument, sourceFormat: SubtitleFormat): VttDocument =>
+  isAssFormat(sourceFormat)
+    ? replaceCues(document, getCues(document).map(cue => ({ ...cue, text: removeOverridePlaceholders(cue.text) })))
+    : document;
+
+/**
+ * Converts a translated WebVTT track into the requested output format.
+ * @param translatedVtt The translated WebVTT content.
+ * @param format The desired output format.
+ * @param sourceContent The raw source file, needed for formats that are written back into the source structure.
+ * @param sourceFormat The format of the source file.
+ * @returns The content in the output format.
+ */
+export const exportSubtitle = (
+  translatedVtt: string,
+  format: SubtitleFormat,
+  sourceContent: string,
+  sourceFormat: SubtitleFormat,
+): string => {
+  const document = parseVtt(translatedVtt);
+  const plainDocument = removeFormatPlaceholders(document, sourceFormat);
+  const cues = getCues(plainDocument);
+  switch (format) {
+    case 'vtt': return plainDocument === document ? translatedVtt : serializeVtt(plainDocument);
+    case 'srt': return serializeSrt(cues);
+    case 'ass':
+    case 'ssa': return serializeAss(parseAss(sourceContent), getCues(document));
+    case 'ttml':
+    case 'dfxp': return serializeTtml(cues, isTtmlFormat(sourceFormat) ? parseTtml(sourceContent) : undefined);
+  }
+};
+
+export const getSubtitleMimeType = (format: SubtitleFormat): string => MIME_TYPES[format];
+
+/**
+ * Builds the download name for a translated file, e.g. `episode.srt` -> `episode_vi.vtt`.
+ * @param fileName The name of the source file.
+ * @param suffix The suffix appended to the base name.
+ * @param format The output format, which determines the extension.
+ * @returns The output file name.
+ */
+export const getOutputFileName = (fileName: string, suffix: string, format: SubtitleFormat): string => {
+  const dotIndex = fileName.lastIndexOf('.');
+  const baseName = dotIndex > 0 ? fileName.slice(0, dotIndex) : fileName;
+  return `${baseName}${suffix}.${format}`;
+};
@@ -0,0 +1,140 @@
+import { Cue } from './vttUtils';
+import { LANGUAGES, LanguagePair } from './languages';
+import { escapeXml } from './xmlUtils';
+
+/** One remembered translation of a cue text. */
+export interface MemoryEntry {
+  sourceLanguage: string;
+  targetLanguage: string;
+  /** The normalized source text the entry is looked up by. */
+  key: string;
+  /** The source text as it first appeared. */
+  source: string;
+  target: string;
+  /** When the entry was last written, in milliseconds since the epoch. */
+  updatedAt: number;
+}
+
+const TMX_CREATION_TOOL = 'subtitle-translator';
+
+/**
+ * Normalizes cue text for lookups, so line breaks and spacing differences
+ * between releases of the same line still match.
+ * @param text The cue text.
+ * @returns The text in Unicode NFC form with whitespace runs collapsed to one space.
+ */
+export const normalizeMemoryText = (text: string): string =>
+  text.normalize('NFC').replace(/\s+/g, ' ').trim();
+
+/**
+ * Creates a memory entry for one translated text.
+ * @param source The source text.
+ * @param target The translated text.
+ * @param languages The language pair of the translation.
+ */
+export const createMemoryEntry = (source: string, target: string, languages: LanguagePair): MemoryEntry => ({
+  sourceLanguage: languages.source,
+  targetLanguage: languages.target,
+  key: normalizeMemoryText(source),
+  source,
+  target,
+  updatedAt: Date.now(),
+});
+
+/**
+ * Pairs the cues of a finished translation with their source cues.
+ * Cues that are empty on either side are skipped.
+ * @param sourceCues The source cues.
+ * @param translatedCues The translated cues, in the same order.
+ * @param languages The language pair of the translation.
+ */
+export const createMemoryEntries = (sourceCues: Cue[], translatedCues: Cue[], languages: LanguagePair): MemoryEntry[] =>
+  sourceCues.flatMap((cue, index) => {
+    const target = translatedCues[index]?.text;
+    return normalizeMemoryText(cue.text) && target?.trim()
+      ? [createMemoryEntry(cue.text, target, languages)]
+      : [];
+  });
+
+/**
+ * Looks up the remembered translation of each cue.
+ * @param cues The source cues.
+ * @param entries The memory entries of the cues' language pair.
+ * @returns The translation of each cue, or undefined where the memory has none.
+ */
+export const findMemoryMatches = (cues: Cue[], entries: MemoryEntry[]): (string | undefined)[] => {
+  const targets = new Map(entries.map(entry => [entry.key, entry.target]));
+  return cues.map(cue => targets.get(normalizeMemoryText(cue.text)));
+};
+
+/**
+ * Maps a TMX language tag such as `en-US` or `zh-CN` to one of the supported
+ * language codes. Tags of unsupported languages are kept as they are.
+ */
+const toLanguageCode = (tag: string): string => {
+  const exact = LANGUAGES.find(language => language.code.toLowerCase() === tag.toLowerCase());
+  if (exact) return exact.code;
+  const primary = tag.split(/[-_]/)[0].toLowerCase();
+  return LANGUAGES.find(language => language.code.split('-')[0].toLowerCase() === primary)?.code ?? tag;
+};
+
+/**
+ * Serializes memory entries as a TMX 1.4 document, one translation unit per entry.
+ * @param entries The entries to export.
+ * @returns The TMX content.
+ */
+export const serializeTmx = (entries: MemoryEntry[]): string => {
+  const units = entries.map(entry => [
+    `    <tu srclang="${escapeXml(entry.sourceLanguage)}" changedate="${new Date(entry.updatedAt).toISOString().replace(/[-:]|\.\d+/g, '')}">`,
+    `      <tuv xml:lang="${escapeXml(entry.sourceLanguage)}"><seg>${escapeXml(entry.source)}</seg></tuv>`,
+    `      <tuv xml:lang="${escapeXml(entry.targetLanguage)}"><seg>${escapeXml(entry.target)}</seg></tuv>`,
+    '    </tu>',
+  ].join('\n'));
+  const sourceLanguages = new Set(entries.map(entry => entry.sourceLanguage));
+  const headerLanguage = sourceLanguages.size === 1 ? [...sourceLanguages][0] : '*all*';
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tmx version="1.4">',
+    `  <header creationtool="${TMX_CREATION_TOOL}" creationtoolversion="1.0" segtype="block" o-tmf="${TMX_CREATION_TOOL}" adminlang="en" srclang="${escapeXml(headerLanguage)}" datatype="plaintext"/>`,
+    '  <body>',
+    ...units,
+    '  </body>',
+    '</tmx>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Parses a TMX document into memory entries. Each translation unit yields one
+ * entry per target variant; units without a source variant are skipped.
+ * @param tmxContent The TMX content.
+ * @returns The entries, stamped with the current time.
+ */
+export const parseTmx = (tmxContent: string): MemoryEntry[] => {
+  const document = new DOMParser().parseFromString(tmxContent, 'application/xml');
+  if (document.getElementsByTagNameNS('*', 'parsererror').length > 0 || document.documentElement.localName !== 'tmx') {
+    throw new Error('Invalid TMX: the file is not a well-formed TMX document.');
+  }
+
+  const headerLanguage = document.getElementsByTagName('header')[0]?.getAttribute('srclang') ?? '';
+  const entries: MemoryEntry[] = [];
+  for (const unit of Array.from(document.getElementsByTagName('tu'))) {
+    const unitLanguage = unit.getAttribute('srclang') ?? headerLanguage;
+    const variants = Array.from(unit.getElementsByTagName('tuv')).map(variant => ({
+      language: variant.getAttribute('xml:lang') ?? variant.getAttribute('lang') ?? '',
+      // Inline markup such as <ph> or <bpt> is flattened to its text.
+      text: variant.getElementsByTagName('seg')[0]?.textContent ?? '',
+    }));
+    // With `*all*` or no source language, the first variant is taken as the source.
+    const source = variants.find(variant => variant.language.toLowerCase() === unitLanguage.toLowerCase()) ?? variants[0];
+    if (!source || !normalizeMemoryText(source.text)) continue;
+
+    const sourceLanguage = toLanguageCode(source.language);
+    for (const variant of variants) {
+      if (variant === source || !variant.language || !variant.text.trim()) continue;
+      entries.push(createMemoryEntry(source.text, variant.text, { source: sourceLanguage, target: toLanguageCode(variant.language) }));
+    }
+  }
+  return entries;
+};
@@ -0,0 +1,260 @@
+import { Cue, VttDocument, formatTimestamp } from './vttUtils';
+
+export interface TtmlDocument {
+  document: XMLDocument;
+  /** The `<p>` elements that became cues, in the same order as `cues`. */
+  paragraphs: Element[];
+  cues: Cue[];
+}
+
+interface TtmlTiming {
+  frameRate: number;
+  tickRate: number;
+}
+
+const TTML_NAMESPACE = 'http://www.w3.org/ns/ttml';
+const TTML_STYLING_NAMESPACE = 'http://www.w3.org/ns/ttml#styling';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>\n';
+
+const EMPTY_TTML_TEMPLATE = `<tt xmlns="${TTML_NAMESPACE}" xmlns:tts="${TTML_STYLING_NAMESPACE}">
+  <head>
+    <styling/>
+    <layout/>
+  </head>
+  <body>
+    <div></div>
+  </body>
+</tt>`;
+
+const CLOCK_TIME_PATTERN = /^(\d+):(\d{2}):(\d{2})(?:\.(\d+))?$/;
+const CLOCK_FRAMES_PATTERN = /^(\d+):(\d{2}):(\d{2}):(\d+)(?:\.\d+)?$/;
+const OFFSET_TIME_PATTERN = /^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/;
+const CUE_TEXT_TOKEN_PATTERN = /<(\/?)(i|b|u)(?:\.[^>]*)?>|<[^>]*>|\n|[^<\n]+/g;
+
+const TEXT_STYLES: Record<'i' | 'b' | 'u', { attribute: string; values: string[] }> = {
+  i: { attribute: 'fontStyle', values: ['italic', 'oblique'] },
+  b: { attribute: 'fontWeight', values: ['bold'] },
+  u: { attribute: 'textDecoration', values: ['underline'] },
+};
+
+/**
+ * Reads an attribute by local name, regardless of which namespace prefix the
+ * file uses. DFXP files often bind the styling namespace to a different URI.
+ */
+const getAttribute = (element: Element, localName: string): string | null => {
+  for (const attribute of Array.from(element.attributes)) {
+    if (attribute.localName === localName) return attribute.value;
+  }
+  return null;
+};
+
+const getTiming = (document: XMLDocument): TtmlTiming => {
+  const root = document.documentElement;
+  const frameRate = Number(getAttribute(root, 'frameRate')) || 30;
+  const tickRate = Number(getAttribute(root, 'tickRate')) || 1;
+  return { frameRate, tickRate };
+};
+
+/**
+ * Parses a TTML time expression (clock time or offset time).
+ * @param value The attribute value, e.g. `00:00:01.500`, `00:00:01:12`, `1.5s` or `15000000t`.
+ * @param timing The frame and tick rates declared on the document.
+ * @returns The time in milliseconds, or null if the expression is not understood.
+ */
+export const parseTtmlTime = (value: string, timing: TtmlTiming): number | null => {
+  const trimmed = value.trim();
+
+  const clock = CLOCK_TIME_PATTERN.exec(trimmed);
+  if (clock) {
+    const [, hours, minutes, seconds, fraction = '0'] = clock;
+    return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + Math.round(Number(`0.${fraction}`) * 1000);
+  }
+
+  const frames = CLOCK_FRAMES_PATTERN.exec(trimmed);
+  if (frames) {
+    const [, hours, minutes, seconds, frameCount] = frames;
+    return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + Math.round(Number(frameCount) / timing.frameRate * 1000);
+  }
+
+  const offset = OFFSET_TIME_PATTERN.exec(trimmed);
+  if (offset) {
+    const amount = Number(offset[1]);
+    switch (offset[2]) {
+      case 'h': return Math.round(amount * 3600000);
+      case 'm': return Math.round(amount * 60000);
+      case 's': return Math.round(amount * 1000);
+      case 'ms': return Math.round(amount);
+      case 'f': return Math.round(amount / timing.frameRate * 1000);
+      case 't': return Math.round(amount / timing.tickRate * 1000);
+    }
+  }
+  return null;
+};
+
+const collectStyles = (document: XMLDocument): Map<string, Element> => {
+  const styles = new Map<string, Element>();
+  for (const style of Array.from(document.getElementsByTagNameNS('*', 'style'))) {
+    const id = getAttribute(style, 'id');
+    if (id) styles.set(id, style);
+  }
+  return styles;
+};
+
+const hasTextStyle = (element: Element, tag: keyof typeof TEXT_STYLES, styles: Map<string, Element>): boolean => {
+  const { attribute, values } = TEXT_STYLES[tag];
+  const matches = (candidate: Element) => values.includes(getAttribute(candidate, attribute) ?? '');
+  if (matches(element)) return true;
+  const styleRefs = (getAttribute(element, 'style') ?? '').split(/\s+/).filter(Boolean);
+  return styleRefs.some(ref => {
+    const style = styles.get(ref);
+    return style !== undefined && matches(style);
+  });
+};
+
+const extractCueText = (element: Element, styles: Map<string, Element>): string => {
+  let text = '';
+  for (const node of Array.from(element.childNodes)) {
+    if (node.nodeType === node.TEXT_NODE) {
+      text += (node.textContent ?? '').replace(/\s+/g, ' ');
+    } else if (node.nodeType === node.ELEMENT_NODE) {
+      const child = node as Element;
+      if (child.localName === 'br') {
+        text += '\n';
+      } else if (child.localName === 'span') {
+        let inner = extractCueText(child, styles);
+        for (const tag of ['u', 'b', 'i'] as const) {
+          if (hasTextStyle(child, tag, styles)) inner = `<${tag}>${inner}</${tag}>`;
+        }
+        text += inner;
+      }
+    }
+  }
+  return text;
+};
+
+const getInheritedOffset = (element: Element, timing: TtmlTiming): number => {
+  let offset = 0;
+  for (let parent = element.parentElement; parent; parent = parent.parentElement) {
+    const begin = getAttribute(parent, 'begin');
+    if (begin) offset += parseTtmlTime(begin, timing) ?? 0;
+  }
+  return offset;
+};
+
+/**
+ * Parses TTML or DFXP content. Each timed `<p>` becomes a cue; spans styled
+ * as italic, bold or underlined map to `<i>`, `<b>` and `<u>`.
+ * @param ttmlContent The raw XML content of the .ttml/.dfxp file.
+ * @returns The parsed document together with its cues.
+ */
+export const parseTtml = (ttmlContent: string): TtmlDocument => {
+  const document = new DOMParser().parseFromString(ttmlContent, 'application/xml');
+  if (document.getElementsByTagNameNS('*', 'parsererror').length > 0 || document.documentElement.localName !== 'tt') {
+    throw new Error('TTML file is not valid XML or has no <tt> root element.');
+  }
+
+  const timing = getTiming(document);
+  const styles = collectStyles(document);
+  const paragraphs: Element[] = [];
+  const cues: Cue[] = [];
+
+  for (const paragraph of Array.from(document.getElementsByTagNameNS('*', 'p'))) {
+    const begin = parseTtmlTime(getAttribute(paragraph, 'begin') ?? '', timing);
+    const end = parseTtmlTime(getAttribute(paragraph, 'end') ?? '', timing);
+    const duration = parseTtmlTime(getAttribute(paragraph, 'dur') ?? '', timing);
+    if (begin === null || (end === null && duration === null)) continue;
+
+    let text = extractCueText(paragraph, styles).split('\n').map(line => line.trim()).join('\n').trim();
+    if (!text) continue;
+    for (const tag of ['u', 'b', 'i'] as const) {
+      if (hasTextStyle(paragraph, tag, styles)) text = `<${tag}>${text}</${tag}>`;
+    }
+
+    const offset = getInheritedOffset(paragraph, timing);
+    paragraphs.push(paragraph);
+    cues.push({
+      type: 'cue',
+      leading: '\n\n',
+      identifier: getAttribute(paragraph, 'id') ?? undefined,
+      startTime: offset + begin,
+      endTime: offset + (end ?? begin + duration!),
+      settings: {},
+      text,
+    });
+  }
+
+  return { document, paragraphs, cues };
+};
+
+/**
+ * Converts a parsed TTML document into the WebVTT cue model.
+ * @param document The parsed TTML document.
+ * @returns A WebVTT document with one cue per timed paragraph.
+ */
+export const ttmlToVtt = (document: TtmlDocument): VttDocument => ({
+  bom: false,
+  lineEnding: '\n',
+  header: 'WEBVTT',
+  blocks: document.cues,
+  trailing: '\n',
+});
+
+const appendCueText = (paragraph: Element, text: string) => {
+  const document = paragraph.ownerDocument;
+  const namespace = document.documentElement.namespaceURI;
+  const stylingNamespace = document.documentElement.lookupNamespaceURI('tts') ?? TTML_STYLING_NAMESPACE;
+  const stack: Element[] = [paragraph];
+
+  for (const match of text.matchAll(CUE_TEXT_TOKEN_PATTERN)) {
+    const [token, closing, tag] = match;
+    const parent = stack[stack.length - 1];
+    if (token === '\n') {
+      parent.appendChild(document.createElementNS(namespace, 'br'));
+    } else if (tag && !closing) {
+      const { attribute, values } = TEXT_STYLES[tag as keyof typeof TEXT_STYLES];
+      const span = document.createElementNS(namespace, 'span');
+      span.setAttributeNS(stylingNamespace, `tts:${attribute}`, values[0]);
+      parent.appendChild(span);
+      stack.push(span);
+    } else if (tag && closing) {
+      if (stack.length > 1) stack.pop();
+    } else if (!token.startsWith('<')) {
+      parent.appendChild(document.createTextNode(token));
+    }
+    // Any other WebVTT tag (voices, classes, timestamps) has no TTML equivalent and is dropped.
+  }
+};
+
+/**
+ * Writes translated cues as TTML. When the source was TTML, its `<head>`
+ * (styling and layout regions) and each paragraph's attributes are kept and
+ * only the paragraph contents are replaced; otherwise a minimal document is built.
+ * @param cues The translated cues.
+ * @param source The parsed source TTML document, if the job came from a TTML/DFXP file. Its paragraphs are rewritten in place.
+ * @returns The TTML content.
+ */
+export const serializeTtml = (cues: Cue[], source?: TtmlDocument): string => {
+  if (source) {
+    if (cues.length !== source.paragraphs.length) {
+      throw new Error(`Cannot write ${cues.length} cues into ${source.paragraphs.length} TTML paragraphs.`);
+    }
+    source.paragraphs.forEach((paragraph, index) => {
+      while (paragraph.firstChild) paragraph.removeChild(paragraph.firstChild);
+      appendCueText(paragraph, cues[index].text.trim());
+    });
+    return XML_DECLARATION + new XMLSerializer().serializeToString(source.document);
+  }
+
+  const document = new DOMParser().parseFromString(EMPTY_TTML_TEMPLATE, 'application/xml');
+  const container = document.getElementsByTagNameNS(TTML_NAMESPACE, 'div')[0];
+  for (const cue of cues) {
+    const paragraph = document.createElementNS(TTML_NAMESPACE, 'p');
+    paragraph.setAttribute('begin', formatTimestamp(cue.startTime));
+    paragraph.setAttribute('end', formatTimestamp(cue.endTime));
+    appendCueText(paragraph, cue.text.trim());
+    container.appendChild(document.createTextNode('\n      '));
+    container.appendChild(paragraph);
+  }
+  container.appendChild(document.createTextNode('\n    '));
+  return XML_DECLARATION + new XMLSerializer().serializeToString(document) + '\n';
+};
@@ -1,75 +1,346 @@
+export type CueSettings = Record<string, string>;
 
-export interface VttParseResult {
+interface BlockBase {
+  /**
+   * Raw text between the previous block (or header) and this one: the blank
+   * lines and any content the parser could not interpret. Kept so that
+   * serializing an untouched document reproduces it byte-for-byte.
+   */
+  leading: string;
+}
+
+export interface Cue extends BlockBase {
+  type: 'cue';
+  identifier?: string;
+  /** Start time in milliseconds. */
+  startTime: number;
+  /** End time in milliseconds. */
+  endTime: number;
+  settings: CueSettings;
+  text: string;
+  /** Original timing line, reused while the timing and settings are unchanged. */
+  timingLine?: string;
+}
+
+export interface NoteBlock extends BlockBase {
+  type: 'note';
+  text: string;
+  raw?: string;
+}
+
+export interface StyleBlock extends BlockBase {
+  type: 'style';
+  css: string;
+  raw?: string;
+}
+
+export interface RegionBlock extends BlockBase {
+  type: 'region';
+  settings: CueSettings;
+  raw?: string;
+}
+
+export type VttBlock = Cue | NoteBlock | StyleBlock | RegionBlock;
+
+export interface VttDocument {
+  bom: boolean;
+  lineEnding: '\n' | '\r\n';
+  /** The `WEBVTT` line and any header metadata lines, or '' for a bare cue fragment. */
   header: string;
-  cues: string[];
+  blocks: VttBlock[];
+  trailing: string;
 }
 
+const BLOCK_SEPARATOR = /(\n(?:[ \t]*\n)+)/;
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})$/;
+const TIMING_LINE_PATTERN = /^\s*(\S+)[ \t]+-->[ \t]+(\S+)(?:[ \t]+(.*?))?\s*$/;
+
+export const isCue = (block: VttBlock): block is Cue => block.type === 'cue';
+
 /**
- * Splits a VTT file content into its header and an array of individual cue blocks.
- * @param vttContent The raw string content of the .vtt file.
- * @returns An object containing the header and an array of cue strings.
+ * Parses a WebVTT timestamp (`hh:mm:ss.ttt` or `mm:ss.ttt`).
+ * @param timestamp The timestamp string.
+ * @returns The time in milliseconds, or null if the timestamp is malformed.
  */
-export const splitVttIntoCues = (vttContent: string): VttParseResult => {
-  const normalizedContent = vttContent.replace(/\r\n/g, '\n');
-  const lines = normalizedContent.split('\n');
-
-  let firstCueLineIndex = -1;
-  for (let i = 0; i < lines.length; i++) {
-    if (lines[i].includes('-->')) {
-      // The line before the timestamp is the cue identifier (if it exists)
-      // The cue block effectively starts before the identifier.
-      // We find the start of this block by looking for the preceding blank line.
-      let blockStartIndex = i;
-      while (blockStartIndex > 0 && lines[blockStartIndex - 1].trim() !== '') {
-        blockStartIndex--;
-      }
-      firstCueLineIndex = blockStartIndex;
-      break;
+export const parseTimestamp = (timestamp: string): number | null => {
+  const match = TIMESTAMP_PATTERN.exec(timestamp.trim());
+  if (!match) return null;
+  const [, hours = '0', minutes, seconds, millis] = match;
+  if (Number(minutes) > 59 || Number(seconds) > 59) return null;
+  return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + Number(millis);
+};
+
+/**
+ * Formats milliseconds as a WebVTT timestamp (`hh:mm:ss.ttt`).
+ * @param ms The time in milliseconds.
+ * @param separator The character between seconds and milliseconds.
+ * @returns The formatted timestamp.
+ */
+export const formatTimestamp = (ms: number, separator: '.' | ',' = '.'): string => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+  const pad = (value: number, length: number) => String(value).padStart(length, '0');
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)}${separator}${pad(millis, 3)}`;
+};
+
+const parseSettings = (settingsText: string): CueSettings => {
+  const settings: CueSettings = {};
+  for (const token of settingsText.split(/\s+/)) {
+    const separatorIndex = token.indexOf(':');
+    if (separatorIndex > 0) {
+      settings[token.slice(0, separatorIndex)] = token.slice(separatorIndex + 1);
     }
   }
+  return settings;
+};
+
+const formatSettings = (settings: CueSettings): string =>
+  Object.entries(settings).map(([key, value]) => `${key}:${value}`).join(' ');
 
-  if (firstCueLineIndex === -1) {
-    // No cues found, treat the whole file as a header.
-    return { header: vttContent.trim(), cues: [] };
+const parseTimingLine = (line: string) => {
+  const match = TIMING_LINE_PATTERN.exec(line);
+  if (!match) return null;
+  const startTime = parseTimestamp(match[1]);
+  const endTime = parseTimestamp(match[2]);
+  if (startTime === null || endTime === null) return null;
+  return { startTime, endTime, settings: parseSettings(match[3] || '') };
+};
+
+const formatTimingLine = (cue: Cue): string => {
+  if (cue.timingLine !== undefined) {
+    const original = parseTimingLine(cue.timingLine);
+    if (
+      original &&
+      original.startTime === cue.startTime &&
+      original.endTime === cue.endTime &&
+      formatSettings(original.settings) === formatSettings(cue.settings)
+    ) {
+      return cue.timingLine;
+    }
   }
-  
-  const header = lines.slice(0, firstCueLineIndex).join('\n').trim();
-  
-  // The rest of the content contains the cues. Split by double newlines.
-  const cuesContent = lines.slice(firstCueLineIndex).join('\n');
-  const cues = cuesContent.split(/\n\n+/).filter(cue => cue.trim() !== '');
-
-  return { header, cues };
+  const settings = formatSettings(cue.settings);
+  return `${formatTimestamp(cue.startTime)} --> ${formatTimestamp(cue.endTime)}${settings ? ` ${settings}` : ''}`;
+};
+
+const startsWithKeyword = (block: string, keyword: string): boolean =>
+  new RegExp(`^${keyword}(?:[ \\t\\n]|$)`).test(block);
+
+const parseNoteText = (raw: string): string => raw.slice('NOTE'.length).replace(/^[ \t\n]/, '');
+
+const parseStyleCss = (raw: string): string => raw.slice('STYLE'.length).replace(/^[ \t]*\n?/, '');
+
+const parseRegionSettings = (raw: string): CueSettings => parseSettings(raw.slice('REGION'.length));
+
+const parseCueBlock = (block: string, leading: string): Cue | null => {
+  const lines = block.split('\n');
+  const timingIndex = lines.findIndex(line => line.includes('-->'));
+  if (timingIndex === -1) return null;
+
+  const timing = parseTimingLine(lines[timingIndex]);
+  if (!timing) return null;
+
+  return {
+    type: 'cue',
+    leading,
+    identifier: timingIndex > 0 ? lines.slice(0, timingIndex).join('\n') : undefined,
+    ...timing,
+    text: lines.slice(timingIndex + 1).join('\n'),
+    timingLine: lines[timingIndex],
+  };
 };
 
+const parseBlock = (block: string, leading: string): VttBlock | null => {
+  if (startsWithKeyword(block, 'NOTE')) {
+    return { type: 'note', leading, text: parseNoteText(block), raw: block };
+  }
+  if (startsWithKeyword(block, 'STYLE') && !block.includes('-->')) {
+    return { type: 'style', leading, css: parseStyleCss(block), raw: block };
+  }
+  if (startsWithKeyword(block, 'REGION') && !block.includes('-->')) {
+    return { type: 'region', leading, settings: parseRegionSettings(block), raw: block };
+  }
+  return parseCueBlock(block, leading);
+};
 
 /**
- * Groups an array of cue strings into larger chunks.
- * @param cues Array of cue strings.
- * @param chunkSize The desired number of cues per chunk.
- * @returns An array of strings, where each string is a block of multiple cues.
+ * Parses WebVTT content into typed cue, NOTE, STYLE and REGION blocks.
+ * Content without a `WEBVTT` header is parsed as a bare list of blocks,
+ * which is how translated chunks come back from the model.
+ * @param vttContent The raw string content of a .vtt file or fragment.
+ * @returns The parsed document.
  */
-export const groupCuesIntoChunks = (cues: string[], chunkSize: number): string[] => {
-  if (chunkSize <= 0) {
-    throw new Error('chunkSize must be a positive number.');
+export const parseVtt = (vttContent: string): VttDocument => {
+  const bom = vttContent.startsWith('\uFEFF');
+  const withoutBom = bom ? vttContent.slice(1) : vttContent;
+  const lineEnding = withoutBom.includes('\r\n') ? '\r\n' : '\n';
+  const normalizedContent = withoutBom.replace(/\r\n/g, '\n');
+
+  const segments = normalizedContent.split(BLOCK_SEPARATOR);
+  let header = '';
+  let startIndex = 0;
+  if (/^WEBVTT(?:[ \t\n]|$)/.test(segments[0])) {
+    header = segments[0];
+    startIndex = 1;
   }
-  
-  const chunks: string[] = [];
-  for (let i = 0; i < cues.length; i += chunkSize) {
-    const chunkCues = cues.slice(i, i + chunkSize);
-    chunks.push(chunkCues.join('\n\n'));
+
+  const blocks: VttBlock[] = [];
+  let pending = '';
+  for (let i = startIndex; i < segments.length; i++) {
+    const segment = segments[i];
+    // Odd indexes are the captured blank-line separators.
+    if (i % 2 === 1 || segment.trim() === '') {
+      pending += segment;
+      continue;
+    }
+
+    let content = segment;
+    let tail = '';
+    if (i === segments.length - 1) {
+      const trailingWhitespace = /\s*$/.exec(segment)![0];
+      content = segment.slice(0, segment.length - trailingWhitespace.length);
+      tail = trailingWhitespace;
+    }
+
+    const block = parseBlock(content, pending);
+    if (block) {
+      blocks.push(block);
+      pending = tail;
+    } else {
+      pending += content + tail;
+    }
+  }
+
+  // A header-only file keeps its trailing newline on the header segment.
+  if (blocks.length === 0 && header && !pending) {
+    const trailingWhitespace = /\s*$/.exec(header)![0];
+    header = header.slice(0, header.length - trailingWhitespace.length);
+    pending = trailingWhitespace;
+  }
+
+  return { bom, lineEnding, header, blocks, trailing: pending };
+};
+
+/**
+ * Renders a single block without its leading separator.
+ * Blocks whose content is unchanged since parsing are written back verbatim.
+ */
+export const serializeBlock = (block: VttBlock): string => {
+  switch (block.type) {
+    case 'cue': {
+      const lines = [formatTimingLine(block)];
+      if (block.identifier !== undefined) lines.unshift(block.identifier);
+      if (block.text) lines.push(block.text);
+      return lines.join('\n');
+    }
+    case 'note':
+      if (block.raw !== undefined && parseNoteText(block.raw) === block.text) return block.raw;
+      return block.text.includes('\n') ? `NOTE\n${block.text}` : `NOTE ${block.text}`;
+    case 'style':
+      if (block.raw !== undefined && parseStyleCss(block.raw) === block.css) return block.raw;
+      return `STYLE\n${block.css}`;
+    case 'region':
+      if (block.raw !== undefined && formatSettings(parseRegionSettings(block.raw)) === formatSettings(block.settings)) {
+        return block.raw;
+      }
+      return `REGION\n${formatSettings(block.settings)}`;
+  }
+};
+
+/**
+ * Serializes a parsed document back to WebVTT text.
+ * @param document The document to serialize.
+ * @returns The WebVTT content, identical to the parsed input if nothing changed.
+ */
+export const serializeVtt = (document: VttDocument): string => {
+  let output = document.header;
+  document.blocks.forEach((block, index) => {
+    const leading = block.leading || (index === 0 && !document.header ? '' : '\n\n');
+    output += leading + serializeBlock(block);
+  });
+  output += document.trailing;
+
+  if (document.lineEnding === '\r\n') {
+    output = output.replace(/\n/g, '\r\n');
+  }
+  return (document.bom ? '\uFEFF' : '') + output;
+};
+
+/**
+ * Serializes a list of cues as a bare WebVTT fragment (no header), separated by blank lines.
+ * @param cues The cues to serialize.
+ * @returns The cue blocks as a single string.
+ */
+export const serializeCues = (cues: Cue[]): string => cues.map(serializeBlock).join('\n\n');
+
+/**
+ * Returns the cues of a document in order, skipping NOTE, STYLE and REGION blocks.
+ */
+export const getCues = (document: VttDocument): Cue[] => document.blocks.filter(isCue);
+
+/**
+ * Replaces the cues of a document, in order, with the given cues.
+ * Non-cue blocks and the separators of the original cues are kept.
+ * @param document The source document.
+ * @param cues The replacement cues; must match the document's cue count.
+ * @returns A new document containing the replacement cues.
+ */
+export const replaceCues = (document: VttDocument, cues: Cue[]): VttDocument => {
+  const originalCount = getCues(document).length;
+  if (cues.length !== originalCount) {
+    throw new Error(`Cannot replace ${originalCount} cues with ${cues.length} cues.`);
+  }
+  let cueIndex = 0;
+  const blocks = document.blocks.map(block =>
+    isCue(block) ? { ...cues[cueIndex++], leading: block.leading } : block
+  );
+  return { ...document, blocks };
+};
+
+/**
+ * Replaces the text of one cue, keeping its timing and settings.
+ * Blank lines would end the cue when serialized, so they are collapsed.
+ * @param document The document to update.
+ * @param index Index of the cue among the document's cues.
+ * @param text The new cue text.
+ * @returns A new document with the updated cue.
+ */
+export const replaceCueText = (document: VttDocument, index: number, text: string): VttDocument =>
+  replaceCues(document, getCues(document).map((cue, cueIndex) =>
+    cueIndex === index ? { ...cue, text: text.trim().replace(/\n\s*\n/g, '\n') } : cue
+  ));
+
+/**
+ * Sets a `Key: value` metadata line in the document header, replacing an
+ * existing line with the same key. A document without a header gets one.
+ * @param document The document to update.
+ * @param key The metadata key, e.g. `Language`.
+ * @param value The metadata value.
+ * @returns A new document with the updated header.
+ */
+export const setHeaderMetadata = (document: VttDocument, key: string, value: string): VttDocument => {
+  const lines = (document.header || 'WEBVTT').split('\n');
+  const line = `${key}: ${value}`;
+  const existingIndex = lines.findIndex((headerLine, index) =>
+    index > 0 && headerLine.slice(0, headerLine.indexOf(':')).trim().toLowerCase() === key.toLowerCase()
+  );
+  if (existingIndex >= 0) {
+    lines[existingIndex] = line;
+  } else {
+    lines.push(line);
   }
-  return chunks;
+  return { ...document, header: lines.join('\n') };
 };
 
 /**
- * Counts the number of subtitle cues (timestamp lines) in a VTT string.
- * @param vttContent The string content of the VTT file.
+ * Counts the number of well-formed subtitle cues in WebVTT content.
+ * NOTE, STYLE and REGION blocks are not counted.
+ * @param vttContent The string content of a VTT file or fragment.
  * @returns The number of cues found.
  */
 export const countCues = (vttContent: string): number => {
   if (!vttContent) return 0;
-  // A simple regex to count occurrences of the timestamp arrow is reliable.
-  const matches = vttContent.match(/-->/g);
-  return matches ? matches.length : 0;
+  return getCues(parseVtt(vttContent)).length;
 };
@@ -0,0 +1,7 @@
+/**
+ * Escapes text for use in XML element content and double-quoted attribute values.
+ * @param text The raw text.
+ * @returns The escaped text.
+ */
+export const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');